@@ -3,6 +3,7 @@ import {
   assign,
   boolean,
   deprecated,
+  number,
   object,
   optional,
 } from "superstruct";
@@ -27,6 +28,8 @@ export type AlarmControlPanelCardConfig = LovelaceCardConfig &
   AppearanceSharedConfig &
   ActionsSharedConfig & {
     states?: AlarmMode[];
+    arming_time?: number;
+    delay_time?: number;
   };
 
 export const alarmControlPanelCardCardConfigStruct = assign(
@@ -38,9 +41,11 @@ export const alarmControlPanelCardCardConfigStruct = assign(
   ),
   object({
     states: optional(array()),
+    arming_time: optional(number()),
+    delay_time: optional(number()),
     show_keypad: deprecated(optional(boolean()), (_value, ctx) => {
       console.warn(
-        `🍄 "${ctx.path}" option is deprecated and no longer available. Remove it from your YAML configuration or use the built-in Home Assistant alarm panel card if you want keypad.`
+        `🍄 "${ctx.path}" option is deprecated and no longer needed. The keypad is displayed when the alarm panel requires a code. Remove it from your YAML configuration.`
       );
     }),
   })
@@ -16,6 +16,8 @@ import {
   alarmControlPanelCardCardConfigStruct,
 } from "./alarm-control-panel-card-config";
 import {
+  ALARM_CONTROL_PANEL_COUNTDOWN_SCHEMA,
+  ALARM_CONTROL_PANEL_LABELS,
   ALARM_CONTROl_PANEL_CARD_EDITOR_NAME,
   ALARM_CONTROl_PANEL_ENTITY_DOMAINS,
 } from "./const";
@@ -57,6 +59,7 @@ const computeSchema = memoizeOne((localize: LocalizeFunc): HaFormSchema[] => [
       localize(`ui.card.alarm_control_panel.${state.replace("armed", "arm")}`),
     ]) as [string, string][],
   },
+  ALARM_CONTROL_PANEL_COUNTDOWN_SCHEMA,
   ...computeActionsFormSchema(actions),
 ]);
 
@@ -101,6 +104,9 @@ export class SwitchCardEditor
     if (GENERIC_LABELS.includes(schema.name)) {
       return customLocalize(`editor.card.generic.${schema.name}`);
     }
+    if (ALARM_CONTROL_PANEL_LABELS.includes(schema.name)) {
+      return customLocalize(`editor.card.alarm-control-panel.${schema.name}`);
+    }
     if (schema.name === "states") {
       return this.hass!.localize(
         "ui.panel.lovelace.editor.card.alarm-panel.available_states"
@@ -7,7 +7,7 @@ import {
   PropertyValues,
   TemplateResult,
 } from "lit";
-import { customElement } from "lit/decorators.js";
+import { customElement, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { styleMap } from "lit/directives/style-map.js";
 import {
@@ -22,7 +22,9 @@ import {
 } from "../../ha";
 import {
   ALARM_MODES,
+  AlarmControlPanelEntity,
   AlarmMode,
+  CODE_DIALOG_CLOSED,
   setProtectedAlarmControlPanelMode,
 } from "../../ha/data/alarm_control_panel";
 import "../../shared/badge-icon";
@@ -38,6 +40,7 @@ import { cardStyle } from "../../utils/card-styles";
 import { registerCustomCard } from "../../utils/custom-cards";
 import { computeEntityPicture } from "../../utils/info";
 import { AlarmControlPanelCardConfig } from "./alarm-control-panel-card-config";
+import "./controls/alarm-control-panel-code-control";
 import {
   ALARM_CONTROl_PANEL_CARD_EDITOR_NAME,
   ALARM_CONTROl_PANEL_CARD_NAME,
@@ -45,8 +48,10 @@ import {
 } from "./const";
 import {
   getStateColor,
-  hasCode,
+  computeCountdown,
+  formatCountdown,
   isActionsAvailable,
+  isCodeRequired,
   isDisarmed,
   shouldPulse,
 } from "./utils";
@@ -69,7 +74,7 @@ type ActionButtonType = {
 
 @customElement(ALARM_CONTROl_PANEL_CARD_NAME)
 export class AlarmControlPanelCard
-  extends MushroomBaseCard<AlarmControlPanelCardConfig>
+  extends MushroomBaseCard<AlarmControlPanelCardConfig, AlarmControlPanelEntity>
   implements LovelaceCard
 {
   public static async getConfigElement(): Promise<LovelaceCardEditor> {
@@ -97,9 +102,89 @@ export class AlarmControlPanelCard
     return Boolean(this._config?.states?.length);
   }
 
-  private _onTap(e: MouseEvent, mode: AlarmMode): void {
+  protected get extraRows(): number {
+    const stateObj = this._stateObj;
+    if (!this.hasControls || !stateObj || !isCodeRequired(stateObj)) return 0;
+    // The keypad takes four rows under the code display
+    return stateObj.attributes.code_format === "number" ? 5 : 1;
+  }
+
+  @state() private _code = "";
+
+  @state() private _codeError = false;
+
+  private async _onTap(e: MouseEvent, mode: AlarmMode): Promise<void> {
     e.stopPropagation();
-    setProtectedAlarmControlPanelMode(this, this.hass!, this._stateObj!, mode);
+    const stateObj = this._stateObj!;
+    const code = this._code;
+    this._code = "";
+
+    try {
+      if (code) {
+        await this.hass.callService(
+          "alarm_control_panel",
+          ALARM_MODES[mode].service,
+          {
+            entity_id: stateObj.entity_id,
+            code,
+          }
+        );
+      } else {
+        // Without a typed code, the dialog asks for it unless a default code is set
+        await setProtectedAlarmControlPanelMode(
+          this,
+          this.hass!,
+          stateObj,
+          mode
+        );
+      }
+    } catch (err) {
+      // Closing the code dialog is not an error
+      if ((err as Error)?.message === CODE_DIALOG_CLOSED) return;
+      this._codeError = true;
+      window.setTimeout(() => {
+        this._codeError = false;
+      }, 500);
+    }
+  }
+
+  private _countdownInterval?: number;
+
+  public disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._stopCountdown();
+  }
+
+  protected updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+    const stateObj = this._stateObj;
+    const countdown =
+      stateObj && this._config
+        ? computeCountdown(stateObj, this._config)
+        : undefined;
+    if (countdown?.remaining) {
+      this._startCountdown();
+    } else {
+      this._stopCountdown();
+    }
+  }
+
+  private _startCountdown(): void {
+    if (this._countdownInterval) return;
+    this._countdownInterval = window.setInterval(
+      () => this.requestUpdate(),
+      1000
+    );
+  }
+
+  private _stopCountdown(): void {
+    if (!this._countdownInterval) return;
+    clearInterval(this._countdownInterval);
+    this._countdownInterval = undefined;
+  }
+
+  private _onCodeChanged(e: CustomEvent<{ value: string }>): void {
+    this._code = e.detail.value;
   }
 
   private _handleAction(ev: ActionHandlerEvent) {
@@ -131,6 +216,14 @@ export class AlarmControlPanelCard
 
     const isActionEnabled = isActionsAvailable(stateObj);
 
+    const isCodeVisible = actions.length > 0 && isCodeRequired(stateObj);
+
+    const countdown = computeCountdown(stateObj, this._config);
+    let stateDisplay = this.hass.formatEntityState(stateObj);
+    if (countdown) {
+      stateDisplay += ` ⸱ ${formatCountdown(countdown.remaining)}`;
+    }
+
     const rtl = computeRTL(this.hass);
 
     return html`
@@ -151,7 +244,7 @@ export class AlarmControlPanelCard
               ? this.renderPicture(picture)
               : this.renderIcon(stateObj, icon)}
             ${this.renderBadge(stateObj)}
-            ${this.renderStateInfo(stateObj, appearance, name)};
+            ${this.renderStateInfo(stateObj, appearance, name, stateDisplay)};
           </mushroom-state-item>
           ${actions.length > 0
             ? html`
@@ -176,6 +269,18 @@ export class AlarmControlPanelCard
               `
             : nothing}
         </mushroom-card>
+        ${isCodeVisible
+          ? html`
+              <mushroom-alarm-control-panel-code-control
+                .hass=${this.hass}
+                .codeFormat=${stateObj.attributes.code_format}
+                .code=${this._code}
+                .error=${this._codeError}
+                .disabled=${!isActionEnabled}
+                @code-changed=${this._onCodeChanged}
+              ></mushroom-alarm-control-panel-code-control>
+            `
+          : nothing}
       </ha-card>
     `;
   }
@@ -183,6 +288,7 @@ export class AlarmControlPanelCard
   protected renderIcon(stateObj: HassEntity, icon?: string): TemplateResult {
     const color = getStateColor(stateObj.state);
     const shapePulse = shouldPulse(stateObj.state);
+    const countdown = computeCountdown(stateObj, this._config!);
     const iconStyle = {
       "--icon-color": `rgb(${color})`,
       "--shape-color": `rgba(${color}, 0.2)`,
@@ -191,7 +297,8 @@ export class AlarmControlPanelCard
       <mushroom-shape-icon
         slot="icon"
         style=${styleMap(iconStyle)}
-        class=${classMap({ pulse: shapePulse })}
+        class=${classMap({ pulse: shapePulse && !countdown })}
+        .progress=${countdown?.progress}
       >
         <ha-state-icon
           .hass=${this.hass}
@@ -210,6 +317,10 @@ export class AlarmControlPanelCard
         mushroom-state-item {
           cursor: pointer;
         }
+        mushroom-alarm-control-panel-code-control {
+          padding: var(--control-spacing);
+          padding-top: 0;
+        }
         mushroom-shape-icon.pulse {
           --shape-animation: 1s ease 0s infinite normal none running pulse;
         }
@@ -1,4 +1,5 @@
 import { PREFIX_NAME } from "../../const";
+import { HaFormSchema } from "../../utils/form/ha-form";
 
 export const ALARM_CONTROl_PANEL_CARD_NAME = `${PREFIX_NAME}-alarm-control-panel-card`;
 export const ALARM_CONTROl_PANEL_CARD_EDITOR_NAME = `${ALARM_CONTROl_PANEL_CARD_NAME}-editor`;
@@ -21,3 +22,24 @@ export const ALARM_CONTROL_PANEL_CARD_STATE_SERVICE = {
   armed_vacation: "alarm_arm_vacation",
   armed_custom_bypass: "alarm_arm_custom_bypass",
 };
+
+export const ALARM_CONTROL_PANEL_LABELS = ["arming_time", "delay_time"];
+
+export const ALARM_CONTROL_PANEL_COUNTDOWN_SCHEMA: HaFormSchema = {
+  type: "grid",
+  name: "",
+  schema: [
+    {
+      name: "arming_time",
+      selector: {
+        number: { min: 0, max: 3600, mode: "box", unit_of_measurement: "s" },
+      },
+    },
+    {
+      name: "delay_time",
+      selector: {
+        number: { min: 0, max: 3600, mode: "box", unit_of_measurement: "s" },
+      },
+    },
+  ],
+};
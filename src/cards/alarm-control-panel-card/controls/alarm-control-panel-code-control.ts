@@ -0,0 +1,160 @@
+import { css, CSSResultGroup, html, LitElement, nothing } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import { HomeAssistant } from "../../../ha";
+import "../../../shared/button";
+import "../../../shared/form/mushroom-textfield";
+
+const KEYPAD_KEYS = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+
+@customElement("mushroom-alarm-control-panel-code-control")
+export class AlarmControlPanelCodeControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public codeFormat?: "text" | "number";
+
+  @property() public code: string = "";
+
+  @property({ type: Boolean }) public error: boolean = false;
+
+  @property({ type: Boolean }) public disabled: boolean = false;
+
+  private _setCode(code: string): void {
+    this.dispatchEvent(
+      new CustomEvent("code-changed", {
+        detail: {
+          value: code,
+        },
+      })
+    );
+  }
+
+  private _onKeyTap(e: MouseEvent, key: string): void {
+    e.stopPropagation();
+    this._setCode(this.code + key);
+  }
+
+  private _onClearTap(e: MouseEvent): void {
+    e.stopPropagation();
+    this._setCode("");
+  }
+
+  private _onBackspaceTap(e: MouseEvent): void {
+    e.stopPropagation();
+    this._setCode(this.code.slice(0, -1));
+  }
+
+  private _onInput(e: Event): void {
+    this._setCode((e.target as HTMLInputElement).value);
+  }
+
+  protected render() {
+    if (!this.codeFormat) return nothing;
+
+    const label = this.hass.localize("ui.card.alarm_control_panel.code");
+
+    if (this.codeFormat === "text") {
+      return html`
+        <mushroom-textfield
+          class=${classMap({ error: this.error })}
+          type="password"
+          autocomplete="off"
+          .label=${label}
+          .value=${this.code}
+          .disabled=${this.disabled}
+          @input=${this._onInput}
+          @click=${(e: MouseEvent) => e.stopPropagation()}
+        ></mushroom-textfield>
+      `;
+    }
+
+    return html`
+      <div class=${classMap({ display: true, error: this.error })}>
+        ${this.code ? "•".repeat(this.code.length) : label}
+      </div>
+      <div class="keypad">
+        ${KEYPAD_KEYS.map((key) => this.renderKey(key))}
+        <mushroom-button
+          .title=${this.hass.localize("ui.card.alarm_control_panel.clear_code")}
+          .disabled=${this.disabled || !this.code}
+          @click=${this._onClearTap}
+        >
+          <ha-icon icon="mdi:close"></ha-icon>
+        </mushroom-button>
+        ${this.renderKey("0")}
+        <mushroom-button
+          .disabled=${this.disabled || !this.code}
+          @click=${this._onBackspaceTap}
+        >
+          <ha-icon icon="mdi:backspace-outline"></ha-icon>
+        </mushroom-button>
+      </div>
+    `;
+  }
+
+  private renderKey(key: string) {
+    return html`
+      <mushroom-button
+        .disabled=${this.disabled}
+        @click=${(e: MouseEvent) => this._onKeyTap(e, key)}
+      >
+        <span class="key">${key}</span>
+      </mushroom-button>
+    `;
+  }
+
+  static get styles(): CSSResultGroup {
+    return css`
+      :host {
+        display: flex;
+        flex-direction: column;
+        gap: var(--spacing);
+      }
+      .display {
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        height: var(--control-height);
+        border-radius: var(--control-border-radius);
+        background-color: rgba(var(--rgb-primary-text-color), 0.05);
+        color: var(--secondary-text-color);
+        font-size: var(--card-primary-font-size);
+        letter-spacing: 4px;
+      }
+      .keypad {
+        display: grid;
+        grid-template-columns: repeat(3, 1fr);
+        gap: var(--spacing);
+      }
+      .keypad mushroom-button {
+        width: 100%;
+      }
+      .key {
+        font-size: var(--card-primary-font-size);
+        font-weight: var(--card-primary-font-weight);
+        line-height: normal;
+        color: var(--primary-text-color);
+      }
+      mushroom-textfield {
+        width: 100%;
+      }
+      .error {
+        animation: shake 0.5s ease-in-out;
+      }
+      @keyframes shake {
+        0%,
+        100% {
+          transform: translateX(0);
+        }
+        20%,
+        60% {
+          transform: translateX(-6px);
+        }
+        40%,
+        80% {
+          transform: translateX(6px);
+        }
+      }
+    `;
+  }
+}
@@ -35,3 +35,52 @@ export function hasCode(stateObj: HassEntity): boolean {
     stateObj.attributes.code_format !== "no_code"
   );
 }
+
+export type AlarmCountdownConfig = {
+  arming_time?: number;
+  delay_time?: number;
+};
+
+/**
+ * Total exit (arming) or entry (pending) delay in seconds. Integrations like
+ * Alarmo expose it as the `delay` attribute, otherwise the configured times
+ * are used.
+ */
+export function computeCountdownDuration(
+  stateObj: HassEntity,
+  config: AlarmCountdownConfig
+): number | undefined {
+  const delay = Number(stateObj.attributes.delay);
+  if (stateObj.state === "arming") {
+    return delay > 0 ? delay : config.arming_time;
+  }
+  if (stateObj.state === "pending") {
+    return delay > 0 ? delay : config.delay_time;
+  }
+  return undefined;
+}
+
+export function computeCountdown(
+  stateObj: HassEntity,
+  config: AlarmCountdownConfig
+): { remaining: number; progress: number } | undefined {
+  const duration = computeCountdownDuration(stateObj, config);
+  if (!duration) return undefined;
+  const elapsed =
+    (Date.now() - new Date(stateObj.last_changed).getTime()) / 1000;
+  const remaining = Math.max(Math.ceil(duration - elapsed), 0);
+  return { remaining, progress: (remaining / duration) * 100 };
+}
+
+export function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+}
+
+export function isCodeRequired(stateObj: HassEntity): boolean {
+  return (
+    hasCode(stateObj) &&
+    (!isDisarmed(stateObj) || Boolean(stateObj.attributes.code_arm_required))
+  );
+}
@@ -0,0 +1,42 @@
+import { array, assign, object, optional, string } from "superstruct";
+import { LovelaceCardConfig } from "../../ha";
+import {
+  ActionsSharedConfig,
+  actionsSharedConfigStruct,
+} from "../../shared/config/actions-config";
+import {
+  AppearanceSharedConfig,
+  appearanceSharedConfigStruct,
+} from "../../shared/config/appearance-config";
+import {
+  EntitySharedConfig,
+  entitySharedConfigStruct,
+} from "../../shared/config/entity-config";
+import { lovelaceCardConfigStruct } from "../../shared/config/lovelace-card-config";
+
+export type AreaCardConfig = LovelaceCardConfig &
+  EntitySharedConfig &
+  AppearanceSharedConfig &
+  ActionsSharedConfig & {
+    area?: string;
+    icon_color?: string;
+    temperature_entity?: string;
+    humidity_entity?: string;
+    toggle_domains?: string[];
+  };
+
+export const areaCardConfigStruct = assign(
+  lovelaceCardConfigStruct,
+  assign(
+    entitySharedConfigStruct,
+    appearanceSharedConfigStruct,
+    actionsSharedConfigStruct
+  ),
+  object({
+    area: optional(string()),
+    icon_color: optional(string()),
+    temperature_entity: optional(string()),
+    humidity_entity: optional(string()),
+    toggle_domains: optional(array(string())),
+  })
+);
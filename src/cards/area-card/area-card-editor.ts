@@ -0,0 +1,130 @@
+import { html, nothing } from "lit";
+import { customElement, state } from "lit/decorators.js";
+import memoizeOne from "memoize-one";
+import { assert } from "superstruct";
+import { fireEvent, LocalizeFunc, LovelaceCardEditor } from "../../ha";
+import setupCustomlocalize from "../../localize";
+import { computeActionsFormSchema } from "../../shared/config/actions-config";
+import { APPEARANCE_FORM_SCHEMA } from "../../shared/config/appearance-config";
+import { MushroomBaseElement } from "../../utils/base-element";
+import { GENERIC_LABELS } from "../../utils/form/generic-fields";
+import { HaFormSchema } from "../../utils/form/ha-form";
+import { UiAction } from "../../utils/form/ha-selector";
+import { loadHaComponents } from "../../utils/loader";
+import { AreaCardConfig, areaCardConfigStruct } from "./area-card-config";
+import { AREA_CARD_EDITOR_NAME, AREA_TOGGLE_DOMAINS } from "./const";
+
+const AREA_LABELS = [
+  "area",
+  "temperature_entity",
+  "humidity_entity",
+  "toggle_domains",
+];
+
+const actions: UiAction[] = [
+  "navigate",
+  "url",
+  "perform-action",
+  "assist",
+  "none",
+];
+
+const computeSchema = memoizeOne((localize: LocalizeFunc): HaFormSchema[] => [
+  { name: "area", selector: { area: {} } },
+  { name: "name", selector: { text: {} } },
+  {
+    type: "grid",
+    name: "",
+    schema: [
+      { name: "icon", selector: { icon: {} } },
+      { name: "icon_color", selector: { mush_color: {} } },
+    ],
+  },
+  ...APPEARANCE_FORM_SCHEMA,
+  {
+    type: "grid",
+    name: "",
+    schema: [
+      {
+        name: "temperature_entity",
+        selector: {
+          entity: { domain: "sensor", device_class: "temperature" },
+        },
+      },
+      {
+        name: "humidity_entity",
+        selector: {
+          entity: { domain: "sensor", device_class: "humidity" },
+        },
+      },
+    ],
+  },
+  {
+    name: "toggle_domains",
+    selector: {
+      select: {
+        options: AREA_TOGGLE_DOMAINS.map((domain) => ({
+          value: domain,
+          label: localize(`component.${domain}.entity_component._.name`),
+        })),
+        mode: "list",
+        multiple: true,
+      },
+    },
+  },
+  ...computeActionsFormSchema(actions),
+]);
+
+@customElement(AREA_CARD_EDITOR_NAME)
+export class AreaCardEditor
+  extends MushroomBaseElement
+  implements LovelaceCardEditor
+{
+  @state() private _config?: AreaCardConfig;
+
+  connectedCallback() {
+    super.connectedCallback();
+    void loadHaComponents();
+  }
+
+  public setConfig(config: AreaCardConfig): void {
+    assert(config, areaCardConfigStruct);
+    this._config = config;
+  }
+
+  private _computeLabel = (schema: HaFormSchema) => {
+    const customLocalize = setupCustomlocalize(this.hass!);
+
+    if (GENERIC_LABELS.includes(schema.name)) {
+      return customLocalize(`editor.card.generic.${schema.name}`);
+    }
+    if (AREA_LABELS.includes(schema.name)) {
+      return customLocalize(`editor.card.area.${schema.name}`);
+    }
+    return this.hass!.localize(
+      `ui.panel.lovelace.editor.card.generic.${schema.name}`
+    );
+  };
+
+  protected render() {
+    if (!this.hass || !this._config) {
+      return nothing;
+    }
+
+    const schema = computeSchema(this.hass!.localize);
+
+    return html`
+      <ha-form
+        .hass=${this.hass}
+        .data=${this._config}
+        .schema=${schema}
+        .computeLabel=${this._computeLabel}
+        @value-changed=${this._valueChanged}
+      ></ha-form>
+    `;
+  }
+
+  private _valueChanged(ev: CustomEvent): void {
+    fireEvent(this, "config-changed", { config: ev.detail.value });
+  }
+}
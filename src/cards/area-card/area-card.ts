@@ -0,0 +1,340 @@
+import { HassEntity } from "home-assistant-js-websocket";
+import { css, CSSResultGroup, html, nothing, TemplateResult } from "lit";
+import { customElement } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import { styleMap } from "lit/directives/style-map.js";
+import {
+  actionHandler,
+  ActionHandlerEvent,
+  AreaRegistryEntry,
+  computeDomain,
+  computeRTL,
+  formatNumber,
+  handleAction,
+  hasAction,
+  HomeAssistant,
+  isActive,
+  LovelaceCard,
+  LovelaceCardEditor,
+  turnOnOffEntities,
+} from "../../ha";
+import setupCustomlocalize from "../../localize";
+import "../../shared/button";
+import "../../shared/button-group";
+import "../../shared/card";
+import { Appearance } from "../../shared/config/appearance-config";
+import "../../shared/shape-avatar";
+import "../../shared/shape-icon";
+import "../../shared/state-info";
+import "../../shared/state-item";
+import { computeAppearance } from "../../utils/appearance";
+import { MushroomBaseCard } from "../../utils/base-card";
+import { cardStyle } from "../../utils/card-styles";
+import { computeRgbColor } from "../../utils/colors";
+import { registerCustomCard } from "../../utils/custom-cards";
+import { AreaCardConfig } from "./area-card-config";
+import {
+  AREA_CARD_EDITOR_NAME,
+  AREA_CARD_NAME,
+  AREA_TOGGLE_DOMAINS,
+} from "./const";
+import {
+  computeSensorsAverage,
+  findSensors,
+  getAreaEntities,
+  isOpen,
+} from "./utils";
+
+const DEFAULT_AREA_ICON = "mdi:texture-box";
+
+const TOGGLE_DOMAIN_ICONS: Record<string, [string, string]> = {
+  light: ["mdi:lightbulb", "mdi:lightbulb-off"],
+  switch: ["mdi:toggle-switch", "mdi:toggle-switch-off"],
+  fan: ["mdi:fan", "mdi:fan-off"],
+};
+
+const TOGGLE_DOMAIN_COLORS: Record<string, string> = {
+  light: "var(--rgb-state-light)",
+  switch: "var(--rgb-state-entity)",
+  fan: "var(--rgb-state-fan)",
+};
+
+registerCustomCard({
+  type: AREA_CARD_NAME,
+  name: "Mushroom Area Card",
+  description: "Card for an area",
+});
+
+@customElement(AREA_CARD_NAME)
+export class AreaCard
+  extends MushroomBaseCard<AreaCardConfig>
+  implements LovelaceCard
+{
+  public static async getConfigElement(): Promise<LovelaceCardEditor> {
+    await import("./area-card-editor");
+    return document.createElement(AREA_CARD_EDITOR_NAME) as LovelaceCardEditor;
+  }
+
+  public static async getStubConfig(
+    hass: HomeAssistant
+  ): Promise<AreaCardConfig> {
+    const areas = Object.keys(hass.areas ?? {});
+    return {
+      type: `custom:${AREA_CARD_NAME}`,
+      area: areas[0],
+    };
+  }
+
+  private get _area(): AreaRegistryEntry | undefined {
+    if (!this._config?.area || !this.hass?.areas) return undefined;
+    return this.hass.areas[this._config.area];
+  }
+
+  private get _entities(): HassEntity[] {
+    if (!this._config?.area || !this.hass?.entities) return [];
+    return getAreaEntities(this.hass, this._config.area);
+  }
+
+  private _getToggleEntities(domain: string): HassEntity[] {
+    return this._entities.filter(
+      (stateObj) => computeDomain(stateObj.entity_id) === domain
+    );
+  }
+
+  private get _toggleDomains(): string[] {
+    const domains = this._config?.toggle_domains ?? AREA_TOGGLE_DOMAINS;
+    return domains.filter(
+      (domain) => this._getToggleEntities(domain).length > 0
+    );
+  }
+
+  protected get hasControls(): boolean {
+    return this._toggleDomains.length > 0;
+  }
+
+  setConfig(config: AreaCardConfig): void {
+    super.setConfig({
+      tap_action: {
+        action: "none",
+      },
+      hold_action: {
+        action: "none",
+      },
+      ...config,
+    });
+  }
+
+  private _handleAction(ev: ActionHandlerEvent) {
+    handleAction(this, this.hass!, this._config!, ev.detail.action!);
+  }
+
+  private _onToggleTap(e: MouseEvent, domain: string): void {
+    e.stopPropagation();
+    const entities = this._getToggleEntities(domain);
+    const active = entities.some((stateObj) => isActive(stateObj));
+    turnOnOffEntities(
+      this.hass,
+      entities.map((stateObj) => stateObj.entity_id),
+      !active
+    );
+  }
+
+  private _computeSensorDisplay(
+    entityId: string | undefined,
+    deviceClass: string
+  ): string | undefined {
+    if (entityId) {
+      const stateObj = this.hass.states[entityId];
+      return stateObj ? this.hass.formatEntityState(stateObj) : undefined;
+    }
+    const average = computeSensorsAverage(
+      findSensors(this._entities, deviceClass)
+    );
+    if (!average) return undefined;
+    const value = formatNumber(average.value, this.hass.locale, {
+      maximumFractionDigits: 1,
+    });
+    return average.unit ? `${value} ${average.unit}` : value;
+  }
+
+  private _computeSummary(): string {
+    const customLocalize = setupCustomlocalize(this.hass);
+    const entities = this._entities;
+
+    const lightsOn = entities.filter(
+      (stateObj) =>
+        computeDomain(stateObj.entity_id) === "light" && isActive(stateObj)
+    ).length;
+    const openCount = entities.filter((stateObj) => isOpen(stateObj)).length;
+
+    const parts = [
+      this._computeSensorDisplay(
+        this._config!.temperature_entity,
+        "temperature"
+      ),
+      this._computeSensorDisplay(this._config!.humidity_entity, "humidity"),
+      lightsOn
+        ? `${customLocalize("card.area.lights_on")}: ${lightsOn}`
+        : undefined,
+      openCount
+        ? `${customLocalize("card.area.open")}: ${openCount}`
+        : undefined,
+    ].filter(Boolean);
+
+    return parts.join(" ⸱ ");
+  }
+
+  protected render() {
+    if (!this._config || !this.hass || !this._config.area) {
+      return nothing;
+    }
+
+    const area = this._area;
+
+    if (!area) {
+      const customLocalize = setupCustomlocalize(this.hass);
+      return this.renderNotFound(
+        { ...this._config, entity: this._config.area },
+        customLocalize("card.area.not_found")
+      );
+    }
+
+    const name = this._config.name || area.name;
+    const icon = this._config.icon || area.icon || DEFAULT_AREA_ICON;
+    const appearance = computeAppearance(this._config);
+    const picture =
+      appearance.icon_type === "entity-picture" ? area.picture : undefined;
+
+    const rtl = computeRTL(this.hass);
+
+    return html`
+      <ha-card
+        class=${classMap({ "fill-container": appearance.fill_container })}
+      >
+        <mushroom-card .appearance=${appearance} ?rtl=${rtl}>
+          <mushroom-state-item
+            ?rtl=${rtl}
+            .appearance=${appearance}
+            @action=${this._handleAction}
+            .actionHandler=${actionHandler({
+              hasHold: hasAction(this._config.hold_action),
+              hasDoubleClick: hasAction(this._config.double_tap_action),
+            })}
+          >
+            ${picture ? this.renderPicture(picture) : this.renderAreaIcon(icon)}
+            ${this.renderAreaInfo(appearance, name)}
+          </mushroom-state-item>
+          ${this.hasControls
+            ? html`
+                <div class="actions" ?rtl=${rtl}>
+                  ${this.renderToggles(appearance)}
+                </div>
+              `
+            : nothing}
+        </mushroom-card>
+      </ha-card>
+    `;
+  }
+
+  private renderAreaIcon(icon: string): TemplateResult {
+    const active = this._entities.some(
+      (stateObj) =>
+        AREA_TOGGLE_DOMAINS.includes(computeDomain(stateObj.entity_id)) &&
+        isActive(stateObj)
+    );
+    const iconStyle = {};
+    const iconColor = this._config?.icon_color;
+    if (iconColor) {
+      const iconRgbColor = computeRgbColor(iconColor);
+      iconStyle["--icon-color"] = `rgb(${iconRgbColor})`;
+      iconStyle["--shape-color"] = `rgba(${iconRgbColor}, 0.2)`;
+    }
+    return html`
+      <mushroom-shape-icon
+        slot="icon"
+        .disabled=${!active}
+        style=${styleMap(iconStyle)}
+      >
+        <ha-icon .icon=${icon}></ha-icon>
+      </mushroom-shape-icon>
+    `;
+  }
+
+  private renderAreaInfo(appearance: Appearance, name: string) {
+    const summary = this._computeSummary();
+
+    const computeInfo = (info: Appearance["primary_info"]) => {
+      switch (info) {
+        case "name":
+          return name;
+        case "state":
+          return summary;
+        default:
+          return undefined;
+      }
+    };
+
+    return html`
+      <mushroom-state-info
+        slot="info"
+        .primary=${computeInfo(appearance.primary_info)}
+        .secondary=${computeInfo(appearance.secondary_info)}
+      ></mushroom-state-info>
+    `;
+  }
+
+  private renderToggles(appearance: Appearance): TemplateResult {
+    const rtl = computeRTL(this.hass);
+
+    return html`
+      <mushroom-button-group
+        .fill=${appearance.layout !== "horizontal"}
+        ?rtl=${rtl}
+      >
+        ${this._toggleDomains.map((domain) => {
+          const entities = this._getToggleEntities(domain);
+          const active = entities.some((stateObj) => isActive(stateObj));
+          const [onIcon, offIcon] = TOGGLE_DOMAIN_ICONS[domain] ?? [
+            "mdi:toggle-switch",
+            "mdi:toggle-switch-off",
+          ];
+          const color =
+            TOGGLE_DOMAIN_COLORS[domain] ?? "var(--rgb-state-entity)";
+          const style = active
+            ? {
+                "--icon-color": `rgb(${color})`,
+                "--bg-color": `rgba(${color}, 0.2)`,
+              }
+            : {};
+          return html`
+            <mushroom-button
+              style=${styleMap(style)}
+              .title=${this.hass.localize(
+                `component.${domain}.entity_component._.name`
+              )}
+              @click=${(e: MouseEvent) => this._onToggleTap(e, domain)}
+            >
+              <ha-icon .icon=${active ? onIcon : offIcon}></ha-icon>
+            </mushroom-button>
+          `;
+        })}
+      </mushroom-button-group>
+    `;
+  }
+
+  static get styles(): CSSResultGroup {
+    return [
+      super.styles,
+      cardStyle,
+      css`
+        mushroom-state-item {
+          cursor: pointer;
+        }
+        mushroom-shape-icon {
+          --icon-color: rgb(var(--rgb-state-entity));
+          --shape-color: rgba(var(--rgb-state-entity), 0.2);
+        }
+      `,
+    ];
+  }
+}
@@ -0,0 +1,5 @@
+import { PREFIX_NAME } from "../../const";
+
+export const AREA_CARD_NAME = `${PREFIX_NAME}-area-card`;
+export const AREA_CARD_EDITOR_NAME = `${AREA_CARD_NAME}-editor`;
+export const AREA_TOGGLE_DOMAINS = ["light", "switch", "fan"];
@@ -0,0 +1,98 @@
+import { HassEntity } from "home-assistant-js-websocket";
+import memoizeOne from "memoize-one";
+import {
+  computeDomain,
+  DeviceRegistryEntry,
+  EntityRegistryDisplayEntry,
+  HomeAssistant,
+} from "../../ha";
+
+const OPEN_BINARY_SENSOR_DEVICE_CLASSES = [
+  "door",
+  "garage_door",
+  "opening",
+  "window",
+];
+
+const OPEN_COVER_STATES = ["open", "opening"];
+
+export const computeAreaEntityIds = memoizeOne(
+  (
+    areaId: string,
+    entities: HomeAssistant["entities"],
+    devices: HomeAssistant["devices"]
+  ): string[] =>
+    Object.values(entities)
+      .filter((entry) => isEntityInArea(entry, areaId, devices))
+      .map((entry) => entry.entity_id)
+);
+
+function isEntityInArea(
+  entry: EntityRegistryDisplayEntry,
+  areaId: string,
+  devices: { [id: string]: DeviceRegistryEntry }
+): boolean {
+  if (entry.hidden || entry.entity_category) {
+    return false;
+  }
+  if (entry.area_id) {
+    return entry.area_id === areaId;
+  }
+  if (entry.device_id) {
+    return devices[entry.device_id]?.area_id === areaId;
+  }
+  return false;
+}
+
+export function getAreaEntities(
+  hass: HomeAssistant,
+  areaId: string
+): HassEntity[] {
+  return computeAreaEntityIds(areaId, hass.entities, hass.devices)
+    .map((entityId) => hass.states[entityId])
+    .filter((stateObj) => stateObj !== undefined);
+}
+
+export function isOpen(stateObj: HassEntity): boolean {
+  const domain = computeDomain(stateObj.entity_id);
+  if (domain === "cover") {
+    return OPEN_COVER_STATES.includes(stateObj.state);
+  }
+  if (domain === "binary_sensor") {
+    return (
+      stateObj.state === "on" &&
+      OPEN_BINARY_SENSOR_DEVICE_CLASSES.includes(
+        stateObj.attributes.device_class ?? ""
+      )
+    );
+  }
+  return false;
+}
+
+export function findSensors(
+  entities: HassEntity[],
+  deviceClass: string
+): HassEntity[] {
+  return entities.filter(
+    (stateObj) =>
+      computeDomain(stateObj.entity_id) === "sensor" &&
+      stateObj.attributes.device_class === deviceClass &&
+      !isNaN(parseFloat(stateObj.state))
+  );
+}
+
+/**
+ * Averages sensors sharing the unit of the first one, so a room with several
+ * thermometers shows a single value.
+ */
+export function computeSensorsAverage(
+  sensors: HassEntity[]
+): { value: number; unit?: string } | undefined {
+  if (!sensors.length) return undefined;
+  const unit = sensors[0].attributes.unit_of_measurement;
+  const values = sensors
+    .filter((stateObj) => stateObj.attributes.unit_of_measurement === unit)
+    .map((stateObj) => parseFloat(stateObj.state));
+  const sum = values.reduce((acc, value) => acc + value, 0);
+  return { value: sum / values.length, unit };
+}
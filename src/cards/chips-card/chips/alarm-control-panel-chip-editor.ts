@@ -10,7 +10,11 @@ import { UiAction } from "../../../utils/form/ha-selector";
 import { computeChipEditorComponentName } from "../../../utils/lovelace/chip/chip-element";
 import { AlarmControlPanelChipConfig } from "../../../utils/lovelace/chip/types";
 import { LovelaceChipEditor } from "../../../utils/lovelace/types";
-import { ALARM_CONTROl_PANEL_ENTITY_DOMAINS } from "../../alarm-control-panel-card/const";
+import {
+  ALARM_CONTROL_PANEL_COUNTDOWN_SCHEMA,
+  ALARM_CONTROL_PANEL_LABELS,
+  ALARM_CONTROl_PANEL_ENTITY_DOMAINS,
+} from "../../alarm-control-panel-card/const";
 
 const actions: UiAction[] = [
   "more-info",
@@ -35,6 +39,7 @@ const computeSchema = memoizeOne((): HaFormSchema[] => [
     ],
   },
   { name: "icon", selector: { icon: {} }, context: { icon_entity: "entity" } },
+  ALARM_CONTROL_PANEL_COUNTDOWN_SCHEMA,
   ...computeActionsFormSchema(actions),
 ]);
 
@@ -57,6 +62,9 @@ export class AlarmControlPanelChipEditor
     if (GENERIC_LABELS.includes(schema.name)) {
       return customLocalize(`editor.card.generic.${schema.name}`);
     }
+    if (ALARM_CONTROL_PANEL_LABELS.includes(schema.name)) {
+      return customLocalize(`editor.card.alarm-control-panel.${schema.name}`);
+    }
     return this.hass!.localize(
       `ui.panel.lovelace.editor.card.generic.${schema.name}`
     );
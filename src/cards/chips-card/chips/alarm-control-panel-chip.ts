@@ -1,5 +1,12 @@
 import { HassEntity } from "home-assistant-js-websocket";
-import { css, CSSResultGroup, html, LitElement, nothing } from "lit";
+import {
+  css,
+  CSSResultGroup,
+  html,
+  LitElement,
+  nothing,
+  PropertyValues,
+} from "lit";
 import { customElement, property, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { styleMap } from "lit/directives/style-map.js";
@@ -20,12 +27,13 @@ import {
 } from "../../../utils/lovelace/chip/chip-element";
 import {
   AlarmControlPanelChipConfig,
-  EntityChipConfig,
   LovelaceChip,
 } from "../../../utils/lovelace/chip/types";
 import { LovelaceChipEditor } from "../../../utils/lovelace/types";
 import { ALARM_CONTROl_PANEL_ENTITY_DOMAINS } from "../../alarm-control-panel-card/const";
 import {
+  computeCountdown,
+  formatCountdown,
   getStateColor,
   shouldPulse,
 } from "../../alarm-control-panel-card/utils";
@@ -54,12 +62,49 @@ export class AlarmControlPanelChip extends LitElement implements LovelaceChip {
 
   @property({ attribute: false }) public hass?: HomeAssistant;
 
-  @state() private _config?: EntityChipConfig;
+  @state() private _config?: AlarmControlPanelChipConfig;
+
+  private _countdownInterval?: number;
 
-  public setConfig(config: EntityChipConfig): void {
+  public setConfig(config: AlarmControlPanelChipConfig): void {
     this._config = config;
   }
 
+  public disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._stopCountdown();
+  }
+
+  protected updated(changedProperties: PropertyValues): void {
+    super.updated(changedProperties);
+    const stateObj = this._config?.entity
+      ? this.hass?.states[this._config.entity]
+      : undefined;
+    const countdown =
+      stateObj && this._config
+        ? computeCountdown(stateObj, this._config)
+        : undefined;
+    if (countdown?.remaining) {
+      this._startCountdown();
+    } else {
+      this._stopCountdown();
+    }
+  }
+
+  private _startCountdown(): void {
+    if (this._countdownInterval) return;
+    this._countdownInterval = window.setInterval(
+      () => this.requestUpdate(),
+      1000
+    );
+  }
+
+  private _stopCountdown(): void {
+    if (!this._countdownInterval) return;
+    clearInterval(this._countdownInterval);
+    this._countdownInterval = undefined;
+  }
+
   private _handleAction(ev: ActionHandlerEvent) {
     handleAction(this, this.hass!, this._config!, ev.detail.action!);
   }
@@ -81,7 +126,11 @@ export class AlarmControlPanelChip extends LitElement implements LovelaceChip {
     const iconColor = getStateColor(stateObj.state);
     const iconPulse = shouldPulse(stateObj.state);
 
-    const stateDisplay = this.hass.formatEntityState(stateObj);
+    const countdown = computeCountdown(stateObj, this._config);
+    let stateDisplay = this.hass.formatEntityState(stateObj);
+    if (countdown) {
+      stateDisplay += ` ⸱ ${formatCountdown(countdown.remaining)}`;
+    }
 
     const iconStyle = {};
     if (iconColor) {
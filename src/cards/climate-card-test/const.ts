@@ -1,5 +0,0 @@
-import { PREFIX_NAME } from "../../const";
-
-export const CLIMATE_CARD_NAME = `${PREFIX_NAME}-climate-card-test`;
-export const CLIMATE_CARD_EDITOR_NAME = `${CLIMATE_CARD_NAME}-editor`;
-export const CLIMATE_ENTITY_DOMAINS = ["climate"];
@@ -1,4 +1,14 @@
-import { array, assign, boolean, object, optional, string } from "superstruct";
+import {
+  array,
+  assign,
+  boolean,
+  enums,
+  number,
+  object,
+  optional,
+  record,
+  string,
+} from "superstruct";
 import { HvacMode, LovelaceCardConfig } from "../../ha";
 import {
   ActionsSharedConfig,
@@ -24,13 +34,29 @@ export const HVAC_MODES: HvacMode[] = [
   "off",
 ];
 
+export const CLIMATE_CARD_STYLES = ["classic", "modern"] as const;
+
+export type ClimateCardStyle = (typeof CLIMATE_CARD_STYLES)[number];
+
 export type ClimateCardConfig = LovelaceCardConfig &
   EntitySharedConfig &
   AppearanceSharedConfig &
   ActionsSharedConfig & {
-    show_temperature_control?: false;
+    style?: ClimateCardStyle;
+    show_temperature_control?: boolean;
     hvac_modes?: HvacMode[];
     collapsible_controls?: boolean;
+    show_fan_control?: boolean;
+    fan_mode_icons?: Record<string, string>;
+    show_preset_mode_control?: boolean;
+    show_swing_mode_control?: boolean;
+    inside_temperature_entity?: string;
+    outside_temperature_entity?: string;
+    show_graph?: boolean;
+    graph_entity?: string;
+    hours_to_show?: number;
+    show_graph_target?: boolean;
+    show_graph_hvac_action?: boolean;
   };
 
 export const climateCardConfigStruct = assign(
@@ -41,8 +67,20 @@ export const climateCardConfigStruct = assign(
     actionsSharedConfigStruct
   ),
   object({
+    style: optional(enums(CLIMATE_CARD_STYLES)),
     show_temperature_control: optional(boolean()),
     hvac_modes: optional(array(string())),
     collapsible_controls: optional(boolean()),
+    show_fan_control: optional(boolean()),
+    fan_mode_icons: optional(record(string(), string())),
+    show_preset_mode_control: optional(boolean()),
+    show_swing_mode_control: optional(boolean()),
+    inside_temperature_entity: optional(string()),
+    outside_temperature_entity: optional(string()),
+    show_graph: optional(boolean()),
+    graph_entity: optional(string()),
+    hours_to_show: optional(number()),
+    show_graph_target: optional(boolean()),
+    show_graph_hvac_action: optional(boolean()),
   })
 );
@@ -11,20 +11,126 @@ import { GENERIC_LABELS } from "../../utils/form/generic-fields";
 import { HaFormSchema } from "../../utils/form/ha-form";
 import { loadHaComponents } from "../../utils/loader";
 import {
+  CLIMATE_CARD_STYLES,
   ClimateCardConfig,
+  ClimateCardStyle,
   climateCardConfigStruct,
   HVAC_MODES,
 } from "./climate-card-config";
 import { CLIMATE_CARD_EDITOR_NAME, CLIMATE_ENTITY_DOMAINS } from "./const";
 
 const CLIMATE_LABELS = [
-  "hvac_modes", 
-  "show_temperature_control", 
-  "outside_temperature_entity", 
+  "style",
+  "hvac_modes",
+  "show_temperature_control",
+  "show_fan_control",
+  "fan_mode_icons",
+  "show_preset_mode_control",
+  "show_swing_mode_control",
   "inside_temperature_entity",
-  "show_fan_control"
+  "outside_temperature_entity",
+  "show_graph",
+  "graph_entity",
+  "hours_to_show",
+  "show_graph_target",
+  "show_graph_hvac_action",
 ] as const;
 
+const computeSchema = memoizeOne(
+  (
+    localize: LocalizeFunc,
+    customLocalize: LocalizeFunc,
+    style: ClimateCardStyle
+  ): HaFormSchema[] => [
+    {
+      name: "entity",
+      selector: { entity: { domain: CLIMATE_ENTITY_DOMAINS } },
+    },
+    { name: "name", selector: { text: {} } },
+    {
+      name: "icon",
+      selector: { icon: {} },
+      context: { icon_entity: "entity" },
+    },
+    {
+      name: "style",
+      selector: {
+        select: {
+          options: CLIMATE_CARD_STYLES.map((style) => ({
+            value: style,
+            label: customLocalize(`editor.card.climate.style_list.${style}`),
+          })),
+          mode: "dropdown",
+        },
+      },
+    },
+    ...APPEARANCE_FORM_SCHEMA,
+    {
+      type: "grid",
+      name: "",
+      schema: [
+        {
+          name: "hvac_modes",
+          selector: {
+            select: {
+              options: HVAC_MODES.map((mode) => ({
+                value: mode,
+                label: localize(
+                  `component.climate.entity_component._.state.${mode}`
+                ),
+              })),
+              mode: "dropdown",
+              multiple: true,
+            },
+          },
+        },
+        { name: "show_temperature_control", selector: { boolean: {} } },
+        { name: "show_fan_control", selector: { boolean: {} } },
+        { name: "show_preset_mode_control", selector: { boolean: {} } },
+        { name: "show_swing_mode_control", selector: { boolean: {} } },
+        { name: "collapsible_controls", selector: { boolean: {} } },
+      ],
+    },
+    { name: "fan_mode_icons", selector: { object: {} } },
+    ...(style === "modern"
+      ? ([
+          {
+            type: "grid",
+            name: "",
+            schema: [
+              {
+                name: "inside_temperature_entity",
+                selector: { entity: { domain: ["sensor"] } },
+              },
+              {
+                name: "outside_temperature_entity",
+                selector: { entity: { domain: ["sensor"] } },
+              },
+            ],
+          },
+          { name: "show_graph", selector: { boolean: {} } },
+          {
+            name: "graph_entity",
+            selector: { entity: { domain: ["sensor"] } },
+          },
+          {
+            type: "grid",
+            name: "",
+            schema: [
+              {
+                name: "hours_to_show",
+                selector: { number: { min: 1, max: 168, mode: "box" } },
+              },
+              { name: "show_graph_target", selector: { boolean: {} } },
+              { name: "show_graph_hvac_action", selector: { boolean: {} } },
+            ],
+          },
+        ] as HaFormSchema[])
+      : []),
+    ...computeActionsFormSchema(),
+  ]
+);
+
 @customElement(CLIMATE_CARD_EDITOR_NAME)
 export class ClimateCardEditor
   extends MushroomBaseElement
@@ -51,12 +157,6 @@ export class ClimateCardEditor
     if (CLIMATE_LABELS.includes(schema.name as any)) {
       return customLocalize(`editor.card.climate.${schema.name}`);
     }
-    if (schema.name === "inside_temperature_entity") {
-      return "Inside Temperature Sensor";
-    }
-    if (schema.name === "outside_temperature_entity") {
-      return "Outside Temperature Sensor";
-    }
     return this.hass!.localize(
       `ui.panel.lovelace.editor.card.generic.${schema.name}`
     );
@@ -67,33 +167,11 @@ export class ClimateCardEditor
       return nothing;
     }
 
-    const schema: HaFormSchema[] = [
-      { name: "entity", selector: { entity: { domain: CLIMATE_ENTITY_DOMAINS } } },
-      { name: "name", selector: { text: {} } },
-      { name: "icon", selector: { icon: {} }, context: { icon_entity: "entity" } },
-      ...APPEARANCE_FORM_SCHEMA,
-      { name: "show_temperature_control", selector: { boolean: {} } },
-      { name: "collapsible_controls", selector: { boolean: {} } },
-      { name: "show_fan_control", selector: { boolean: {} } },
-      {
-        name: "hvac_modes",
-        selector: {
-          select: {
-            options: HVAC_MODES.map((mode) => ({
-              value: mode,
-              label: this.hass!.localize(
-                `component.climate.entity_component._.state.${mode}`
-              ),
-            })),
-            mode: "dropdown",
-            multiple: true,
-          },
-        },
-      },
-      { name: "inside_temperature_entity", selector: { entity: { domain: ["sensor"] } } },
-      { name: "outside_temperature_entity", selector: { entity: { domain: ["sensor"] } } },
-      ...computeActionsFormSchema(),
-    ];
+    const schema = computeSchema(
+      this.hass!.localize,
+      setupCustomlocalize(this.hass!),
+      this._config.style ?? "classic"
+    );
 
     return html`
       <ha-form
@@ -109,4 +187,4 @@ export class ClimateCardEditor
   private _valueChanged(ev: CustomEvent): void {
     fireEvent(this, "config-changed", { config: ev.detail.value });
   }
-}
\ No newline at end of file
+}
@@ -23,6 +23,7 @@ import {
   isAvailable,
   LovelaceCard,
   LovelaceCardEditor,
+  LovelaceGridOptions,
 } from "../../ha";
 import "../../shared/badge-icon";
 import "../../shared/card";
@@ -30,19 +31,29 @@ import "../../shared/shape-avatar";
 import "../../shared/shape-icon";
 import "../../shared/state-info";
 import "../../shared/state-item";
+import setupCustomlocalize from "../../localize";
 import { computeAppearance } from "../../utils/appearance";
 import { MushroomBaseCard } from "../../utils/base-card";
 import { cardStyle } from "../../utils/card-styles";
 import { registerCustomCard } from "../../utils/custom-cards";
 import { computeEntityPicture } from "../../utils/info";
+import { Appearance } from "../../shared/config/appearance-config";
 import { ClimateCardConfig } from "./climate-card-config";
+import "./climate-temperature-graph";
+import { DEFAULT_HOURS_TO_SHOW } from "./climate-temperature-graph";
 import {
   CLIMATE_CARD_EDITOR_NAME,
   CLIMATE_CARD_NAME,
   CLIMATE_ENTITY_DOMAINS,
 } from "./const";
+import "./controls/climate-fan-mode-control";
+import { isFanModeVisible } from "./controls/climate-fan-mode-control";
 import "./controls/climate-hvac-modes-control";
 import { isHvacModesVisible } from "./controls/climate-hvac-modes-control";
+import "./controls/climate-preset-mode-control";
+import { isPresetModeVisible } from "./controls/climate-preset-mode-control";
+import "./controls/climate-swing-mode-control";
+import { isSwingModeVisible } from "./controls/climate-swing-mode-control";
 import "./controls/climate-temperature-control";
 import { isTemperatureControlVisible } from "./controls/climate-temperature-control";
 import {
@@ -51,11 +62,26 @@ import {
   getHvacModeColor,
 } from "./utils";
 
-type ClimateCardControl = "temperature_control" | "hvac_mode_control";
+type ClimateCardControl =
+  | "temperature_control"
+  | "hvac_mode_control"
+  | "fan_mode_control"
+  | "preset_mode_control"
+  | "swing_mode_control";
+
+// Controls sharing the bottom row of the modern style
+const MODERN_MODE_CONTROLS: ClimateCardControl[] = [
+  "fan_mode_control",
+  "preset_mode_control",
+  "swing_mode_control",
+];
 
 const CONTROLS_ICONS: Record<ClimateCardControl, string> = {
   temperature_control: "mdi:thermometer",
   hvac_mode_control: "mdi:thermostat",
+  fan_mode_control: "mdi:fan",
+  preset_mode_control: "mdi:tune-variant",
+  swing_mode_control: "mdi:arrow-oscillating",
 };
 
 registerCustomCard({
@@ -105,6 +131,18 @@ export class ClimateCard
     if (isHvacModesVisible(stateObj, this._config.hvac_modes)) {
       controls.push("hvac_mode_control");
     }
+    if (isFanModeVisible(stateObj) && this._config.show_fan_control) {
+      controls.push("fan_mode_control");
+    }
+    if (
+      isPresetModeVisible(stateObj) &&
+      this._config.show_preset_mode_control
+    ) {
+      controls.push("preset_mode_control");
+    }
+    if (isSwingModeVisible(stateObj) && this._config.show_swing_mode_control) {
+      controls.push("swing_mode_control");
+    }
     return controls;
   }
 
@@ -166,6 +204,10 @@ export class ClimateCard
     const appearance = computeAppearance(this._config);
     const picture = computeEntityPicture(stateObj, appearance.icon_type);
 
+    if (this._config.style === "modern") {
+      return this.renderModern(stateObj, appearance, name);
+    }
+
     let stateDisplay = this.hass.formatEntityState(stateObj);
     if (stateObj.attributes.current_temperature !== null) {
       const temperature = this.hass.formatEntityAttributeValue(
@@ -281,16 +323,31 @@ export class ClimateCard
   }
 
   private renderActiveControl(entity: ClimateEntity) {
-    const hvac_modes = this._config!.hvac_modes ?? [];
+    if (!this._activeControl) return nothing;
+
     const appearance = computeAppearance(this._config!);
 
-    switch (this._activeControl) {
+    return this.renderControl(
+      entity,
+      this._activeControl,
+      appearance.layout !== "horizontal"
+    );
+  }
+
+  private renderControl(
+    entity: ClimateEntity,
+    control: ClimateCardControl,
+    fill: boolean
+  ) {
+    const hvac_modes = this._config!.hvac_modes ?? [];
+
+    switch (control) {
       case "temperature_control":
         return html`
           <mushroom-climate-temperature-control
             .hass=${this.hass}
             .entity=${entity}
-            .fill=${appearance.layout !== "horizontal"}
+            .fill=${fill}
           ></mushroom-climate-temperature-control>
         `;
       case "hvac_mode_control":
@@ -299,14 +356,231 @@ export class ClimateCard
             .hass=${this.hass}
             .entity=${entity}
             .modes=${hvac_modes}
-            .fill=${appearance.layout !== "horizontal"}
+            .fill=${fill}
           ></mushroom-climate-hvac-modes-control>
         `;
+      case "fan_mode_control":
+        return html`
+          <mushroom-climate-fan-mode-control
+            .hass=${this.hass}
+            .entity=${entity}
+            .icons=${this._config!.fan_mode_icons}
+            .fill=${fill}
+          ></mushroom-climate-fan-mode-control>
+        `;
+      case "preset_mode_control":
+        return html`
+          <mushroom-climate-preset-mode-control
+            .hass=${this.hass}
+            .entity=${entity}
+            .fill=${fill}
+          ></mushroom-climate-preset-mode-control>
+        `;
+      case "swing_mode_control":
+        return html`
+          <mushroom-climate-swing-mode-control
+            .hass=${this.hass}
+            .entity=${entity}
+            .fill=${fill}
+          ></mushroom-climate-swing-mode-control>
+        `;
       default:
         return nothing;
     }
   }
 
+  private get _isGraphVisible(): boolean {
+    return Boolean(this._config?.show_graph || this._config?.graph_entity);
+  }
+
+  private get _visibleControls(): ClimateCardControl[] {
+    const stateObj = this._stateObj;
+    if (!this._config || !stateObj) return [];
+    if (this._config.collapsible_controls && !isActive(stateObj)) return [];
+    return this._controls;
+  }
+
+  private _computeModernRows(): number {
+    const controls = this._visibleControls;
+    let rows = 2;
+    if (controls.includes("temperature_control")) {
+      rows += 1;
+    }
+    if (controls.some((control) => MODERN_MODE_CONTROLS.includes(control))) {
+      rows += 1;
+    }
+    if (this._isGraphVisible) {
+      rows += 1;
+    }
+    return rows;
+  }
+
+  public getCardSize(): number | Promise<number> {
+    if (this._config?.style === "modern") {
+      return this._computeModernRows();
+    }
+    return super.getCardSize();
+  }
+
+  public getGridOptions(): LovelaceGridOptions {
+    const options = super.getGridOptions();
+    if (this._config?.style !== "modern") {
+      return options;
+    }
+    const rows = this._computeModernRows();
+    return {
+      ...options,
+      columns: 12,
+      min_columns: 6,
+      rows,
+      min_rows: rows,
+    };
+  }
+
+  private _computeSensorDisplay(entityId?: string): string | undefined {
+    const sensor = entityId ? this.hass.states[entityId] : undefined;
+    if (!sensor || !isAvailable(sensor) || isNaN(parseFloat(sensor.state))) {
+      return undefined;
+    }
+    return this.hass.formatEntityState(sensor);
+  }
+
+  private _computeInsideTemperature(
+    stateObj: ClimateEntity
+  ): string | undefined {
+    const sensorDisplay = this._computeSensorDisplay(
+      this._config?.inside_temperature_entity
+    );
+    if (sensorDisplay !== undefined) {
+      return sensorDisplay;
+    }
+    if (stateObj.attributes.current_temperature == null) {
+      return undefined;
+    }
+    return this.hass.formatEntityAttributeValue(
+      stateObj,
+      "current_temperature"
+    );
+  }
+
+  private renderModern(
+    stateObj: ClimateEntity,
+    appearance: Appearance,
+    name: string
+  ): TemplateResult {
+    const rtl = computeRTL(this.hass);
+
+    const customLocalize = setupCustomlocalize(this.hass);
+
+    const insideTemperature = this._computeInsideTemperature(stateObj);
+    const outsideTemperature = this._computeSensorDisplay(
+      this._config!.outside_temperature_entity
+    );
+
+    const controls = this._visibleControls;
+    const modeControls = controls.filter((control) =>
+      MODERN_MODE_CONTROLS.includes(control)
+    );
+
+    return html`
+      <ha-card
+        class=${classMap({ "fill-container": appearance.fill_container })}
+      >
+        <div class="modern" ?rtl=${rtl}>
+          <div class="modern-header">
+            <div
+              class="modern-info"
+              @action=${this._handleAction}
+              .actionHandler=${actionHandler({
+                hasHold: hasAction(this._config!.hold_action),
+                hasDoubleClick: hasAction(this._config!.double_tap_action),
+              })}
+            >
+              ${outsideTemperature !== undefined
+                ? html`
+                    <span class="outside-temperature">
+                      ${customLocalize("card.climate.outside_temperature")}:
+                      ${outsideTemperature}
+                    </span>
+                  `
+                : nothing}
+              ${insideTemperature !== undefined
+                ? html`
+                    <span class="inside-temperature">
+                      ${insideTemperature}
+                    </span>
+                  `
+                : nothing}
+              ${this.renderStateInfo(stateObj, appearance, name)}
+            </div>
+            ${controls.includes("hvac_mode_control")
+              ? this.renderControl(stateObj, "hvac_mode_control", false)
+              : nothing}
+          </div>
+          ${controls.includes("temperature_control")
+            ? html`
+                <div class="modern-row">
+                  ${this.renderControl(stateObj, "temperature_control", true)}
+                </div>
+              `
+            : nothing}
+          ${modeControls.length
+            ? html`
+                <div class="modern-row">
+                  ${modeControls.map((control) =>
+                    this.renderControl(stateObj, control, false)
+                  )}
+                </div>
+              `
+            : nothing}
+          <div class="modern-footer">
+            ${this.renderModernActionBadge(stateObj)}
+            ${this.renderGraph(stateObj)}
+          </div>
+        </div>
+      </ha-card>
+    `;
+  }
+
+  private renderModernActionBadge(entity: ClimateEntity) {
+    const hvac_action = entity.attributes.hvac_action;
+    if (!hvac_action || hvac_action == "off") return nothing;
+
+    const color = getHvacActionColor(hvac_action);
+    const icon = getHvacActionIcon(hvac_action);
+
+    if (!icon) return nothing;
+
+    return html`
+      <div class="action-badge">
+        <ha-icon
+          .icon=${icon}
+          style=${styleMap({
+            color: `rgb(${color})`,
+          })}
+        ></ha-icon>
+        <span>
+          ${this.hass.formatEntityAttributeValue(entity, "hvac_action")}
+        </span>
+      </div>
+    `;
+  }
+
+  private renderGraph(entity: ClimateEntity) {
+    if (!this._isGraphVisible) return nothing;
+
+    return html`
+      <mushroom-climate-temperature-graph
+        .hass=${this.hass}
+        .entity=${entity}
+        .graphEntity=${this._config!.graph_entity}
+        .hoursToShow=${this._config!.hours_to_show ?? DEFAULT_HOURS_TO_SHOW}
+        .showTarget=${Boolean(this._config!.show_graph_target)}
+        .showHvacAction=${Boolean(this._config!.show_graph_hvac_action)}
+      ></mushroom-climate-temperature-graph>
+    `;
+  }
+
   static get styles(): CSSResultGroup {
     return [
       super.styles,
@@ -316,9 +590,71 @@ export class ClimateCard
           cursor: pointer;
         }
         mushroom-climate-temperature-control,
-        mushroom-climate-hvac-modes-control {
+        mushroom-climate-hvac-modes-control,
+        mushroom-climate-fan-mode-control,
+        mushroom-climate-preset-mode-control,
+        mushroom-climate-swing-mode-control {
           flex: 1;
         }
+        .modern {
+          display: flex;
+          flex-direction: column;
+          gap: var(--spacing);
+          padding: var(--spacing);
+          height: 100%;
+          box-sizing: border-box;
+        }
+        .modern-header {
+          display: flex;
+          flex-direction: row;
+          align-items: flex-start;
+          justify-content: space-between;
+          gap: var(--spacing);
+        }
+        .modern-header mushroom-climate-hvac-modes-control {
+          flex: none;
+        }
+        .modern-info {
+          display: flex;
+          flex-direction: column;
+          align-items: flex-start;
+          min-width: 0;
+          cursor: pointer;
+        }
+        .inside-temperature {
+          font-size: var(--climate-temperature-font-size);
+          font-weight: var(--climate-temperature-font-weight);
+          line-height: 1;
+          color: var(--climate-temperature-color);
+        }
+        .outside-temperature {
+          font-size: var(--card-secondary-font-size);
+          color: var(--card-secondary-color);
+        }
+        .modern-row {
+          display: flex;
+          flex-direction: row;
+          gap: var(--spacing);
+        }
+        .modern-footer {
+          position: relative;
+          margin-top: auto;
+          min-height: 30px;
+        }
+        .action-badge {
+          display: flex;
+          align-items: center;
+          gap: 4px;
+          font-size: var(--card-secondary-font-size);
+          color: var(--card-secondary-color);
+        }
+        .action-badge ha-icon {
+          --mdc-icon-size: 16px;
+        }
+        mushroom-climate-temperature-graph {
+          position: absolute;
+          inset: 0;
+        }
       `,
     ];
   }
@@ -0,0 +1,304 @@
+import { UnsubscribeFunc } from "home-assistant-js-websocket";
+import { css, html, LitElement, nothing, PropertyValues, svg } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { styleMap } from "lit/directives/style-map.js";
+import {
+  ClimateEntity,
+  formatNumber,
+  HistoryStates,
+  HomeAssistant,
+  HvacMode,
+  subscribeHistoryStatesTimeWindow,
+} from "../../ha";
+import {
+  computeAreaPath,
+  computeBandRect,
+  computeBounds,
+  computeHistoryPoints,
+  computeHvacActionBands,
+  computeLinePath,
+  downsamplePoints,
+  getHvacActionColor,
+  getHvacModeColor,
+} from "./utils";
+
+export const DEFAULT_HOURS_TO_SHOW = 24;
+
+const GRAPH_WIDTH = 500;
+const GRAPH_HEIGHT = 50;
+const GRAPH_BUCKETS = 100;
+
+@customElement("mushroom-climate-temperature-graph")
+export class ClimateTemperatureGraph extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: ClimateEntity;
+
+  @property({ attribute: false }) public graphEntity?: string;
+
+  @property({ attribute: false }) public hoursToShow = DEFAULT_HOURS_TO_SHOW;
+
+  @property({ attribute: false }) public showTarget = false;
+
+  @property({ attribute: false }) public showHvacAction = false;
+
+  @state() private _history?: HistoryStates;
+
+  private _subscribed?: Promise<UnsubscribeFunc>;
+
+  private _subscriptionKey?: string;
+
+  private get _entityIds(): string[] {
+    const entityIds: string[] = [];
+    if (this.graphEntity) {
+      entityIds.push(this.graphEntity);
+    }
+    if (!this.graphEntity || this.showTarget || this.showHvacAction) {
+      entityIds.push(this.entity.entity_id);
+    }
+    return entityIds;
+  }
+
+  public connectedCallback() {
+    super.connectedCallback();
+    this._tryConnect();
+  }
+
+  public disconnectedCallback() {
+    super.disconnectedCallback();
+    this._tryDisconnect();
+  }
+
+  protected updated(changedProps: PropertyValues): void {
+    super.updated(changedProps);
+    if (!this.hass || !this.entity) return;
+
+    const key = `${this._entityIds.join(",")}|${this.hoursToShow}`;
+    if (this._subscriptionKey !== undefined && key !== this._subscriptionKey) {
+      this._tryDisconnect();
+    }
+    this._tryConnect();
+  }
+
+  private _tryConnect(): void {
+    if (this._subscribed || !this.hass || !this.entity || !this.isConnected) {
+      return;
+    }
+
+    const entityIds = this._entityIds;
+    // Attributes of the climate entity are only needed for its temperature
+    // and the overlays, the graph entity only uses its state.
+    const needsAttributes = entityIds.includes(this.entity.entity_id);
+    this._subscriptionKey = `${entityIds.join(",")}|${this.hoursToShow}`;
+    this._subscribed = subscribeHistoryStatesTimeWindow(
+      this.hass,
+      (history) => {
+        this._history = history;
+      },
+      this.hoursToShow,
+      entityIds,
+      !needsAttributes,
+      !needsAttributes,
+      !needsAttributes
+    );
+    this._subscribed.catch(() => {
+      this._subscribed = undefined;
+      this._history = undefined;
+    });
+  }
+
+  private async _tryDisconnect(): Promise<void> {
+    const subscribed = this._subscribed;
+    this._subscribed = undefined;
+    this._subscriptionKey = undefined;
+    this._history = undefined;
+    if (!subscribed) return;
+
+    try {
+      const unsub = await subscribed;
+      unsub();
+    } catch (_err) {
+      // The connection was probably already closed. Ignore.
+    }
+  }
+
+  private _formatTemperature(value: number): string {
+    const unit =
+      (this.graphEntity &&
+        this.hass.states[this.graphEntity]?.attributes.unit_of_measurement) ||
+      this.hass.config.unit_system.temperature;
+    return `${formatNumber(value, this.hass.locale, {
+      maximumFractionDigits: 1,
+    })} ${unit}`;
+  }
+
+  protected render() {
+    if (!this.hass || !this.entity || !this._history) {
+      return nothing;
+    }
+
+    const end = Date.now();
+    const start = end - this.hoursToShow * 60 * 60 * 1000;
+
+    const climateStates = this._history[this.entity.entity_id] ?? [];
+    const temperatureStates = this.graphEntity
+      ? (this._history[this.graphEntity] ?? [])
+      : climateStates;
+
+    const points = downsamplePoints(
+      computeHistoryPoints(
+        temperatureStates,
+        this.graphEntity ? undefined : "current_temperature"
+      ),
+      start,
+      end,
+      GRAPH_BUCKETS
+    );
+    const targetPoints = this.showTarget
+      ? downsamplePoints(
+          computeHistoryPoints(climateStates, "temperature"),
+          start,
+          end,
+          GRAPH_BUCKETS
+        )
+      : [];
+    const bands = this.showHvacAction
+      ? computeHvacActionBands(climateStates, start, end)
+      : [];
+
+    const bounds = computeBounds(points, targetPoints);
+    const valueBounds = computeBounds(points);
+
+    if (!bounds || !valueBounds) {
+      return nothing;
+    }
+
+    const targetColor = getHvacModeColor(this.entity.state as HvacMode);
+
+    return html`
+      <svg
+        viewBox="0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}"
+        preserveAspectRatio="none"
+      >
+        <defs>
+          <linearGradient id="gradient" x1="0%" y1="0%" x2="0%" y2="100%">
+            <stop class="gradient-start" offset="0%" />
+            <stop class="gradient-end" offset="100%" />
+          </linearGradient>
+        </defs>
+        ${bands.map((band) => {
+          const rect = computeBandRect(band, start, end, GRAPH_WIDTH);
+          return svg`
+              <rect
+                class="band"
+                x=${rect.x}
+                y="0"
+                width=${rect.width}
+                height=${GRAPH_HEIGHT}
+                style=${styleMap({
+                  fill: `rgb(${getHvacActionColor(band.action)})`,
+                })}
+              />
+            `;
+        })}
+        <path
+          class="area"
+          d=${computeAreaPath(
+            points,
+            start,
+            end,
+            bounds,
+            GRAPH_WIDTH,
+            GRAPH_HEIGHT
+          )}
+        />
+        <path
+          class="line"
+          d=${computeLinePath(
+            points,
+            start,
+            end,
+            bounds,
+            GRAPH_WIDTH,
+            GRAPH_HEIGHT
+          )}
+        />
+        ${targetPoints.length
+          ? svg`
+              <path
+                class="target"
+                d=${computeLinePath(
+                  targetPoints,
+                  start,
+                  end,
+                  bounds,
+                  GRAPH_WIDTH,
+                  GRAPH_HEIGHT
+                )}
+                style=${styleMap({ stroke: `rgb(${targetColor})` })}
+              />
+            `
+          : nothing}
+      </svg>
+      <div class="labels">
+        <span class="max">${this._formatTemperature(valueBounds.max)}</span>
+        <span class="min">${this._formatTemperature(valueBounds.min)}</span>
+      </div>
+    `;
+  }
+
+  static get styles() {
+    return css`
+      :host {
+        display: block;
+        position: relative;
+        height: 100%;
+      }
+      svg {
+        display: block;
+        width: 100%;
+        height: 100%;
+        overflow: visible;
+      }
+      .line,
+      .target {
+        fill: none;
+        stroke: var(--climate-graph-color);
+        stroke-width: 2;
+        stroke-opacity: var(--climate-graph-opacity);
+        vector-effect: non-scaling-stroke;
+      }
+      .target {
+        stroke-dasharray: 4 4;
+        stroke-opacity: 0.8;
+      }
+      .gradient-start {
+        stop-color: var(--climate-graph-color);
+        stop-opacity: calc(var(--climate-graph-opacity) * 0.4);
+      }
+      .gradient-end {
+        stop-color: var(--climate-graph-color);
+        stop-opacity: 0;
+      }
+      .area {
+        fill: url(#gradient);
+      }
+      .band {
+        fill-opacity: var(--climate-graph-band-opacity);
+      }
+      .labels {
+        position: absolute;
+        top: 0;
+        right: 0;
+        bottom: 0;
+        display: flex;
+        flex-direction: column;
+        justify-content: space-between;
+        align-items: flex-end;
+        font-size: var(--card-secondary-font-size);
+        color: var(--card-secondary-color);
+        pointer-events: none;
+      }
+    `;
+  }
+}
@@ -0,0 +1,86 @@
+import { html, LitElement, TemplateResult } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { styleMap } from "lit/directives/style-map.js";
+import {
+  ClimateEntity,
+  CLIMATE_SUPPORT_FAN_MODE,
+  computeRTL,
+  HomeAssistant,
+  HvacMode,
+  isAvailable,
+  supportsFeature,
+} from "../../../ha";
+import "../../../shared/button";
+import "../../../shared/button-group";
+import { getFanModeIcon, getHvacModeColor } from "../utils";
+
+export const isFanModeVisible = (entity: ClimateEntity) =>
+  supportsFeature(entity, CLIMATE_SUPPORT_FAN_MODE) &&
+  Boolean(entity.attributes.fan_modes?.length);
+
+// Auto is displayed last so the manual speeds stay in order
+const compareFanModes = (mode1: string, mode2: string) =>
+  Number(mode1.toLowerCase() === "auto") -
+  Number(mode2.toLowerCase() === "auto");
+
+@customElement("mushroom-climate-fan-mode-control")
+export class ClimateFanModeControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: ClimateEntity;
+
+  @property({ attribute: false }) public icons?: Record<string, string>;
+
+  @property() public fill: boolean = false;
+
+  private callService(e: CustomEvent) {
+    e.stopPropagation();
+    const mode = (e.target! as any).mode as string;
+    this.hass.callService("climate", "set_fan_mode", {
+      entity_id: this.entity!.entity_id,
+      fan_mode: mode,
+    });
+  }
+
+  protected render(): TemplateResult {
+    const rtl = computeRTL(this.hass);
+
+    const modes = [...(this.entity.attributes.fan_modes ?? [])].sort(
+      compareFanModes
+    );
+
+    return html`
+      <mushroom-button-group .fill=${this.fill} ?rtl=${rtl}>
+        ${modes.map((mode) => this.renderModeButton(mode))}
+      </mushroom-button-group>
+    `;
+  }
+
+  private renderModeButton(mode: string) {
+    const iconStyle = {};
+    const color =
+      this.entity.state === "off"
+        ? "var(--rgb-grey)"
+        : getHvacModeColor(this.entity.state as HvacMode);
+    if (mode === this.entity.attributes.fan_mode) {
+      iconStyle["--icon-color"] = `rgb(${color})`;
+      iconStyle["--bg-color"] = `rgba(${color}, 0.2)`;
+    }
+
+    return html`
+      <mushroom-button
+        style=${styleMap(iconStyle)}
+        .mode=${mode}
+        .title=${this.hass.formatEntityAttributeValue(
+          this.entity,
+          "fan_mode",
+          mode
+        )}
+        .disabled=${!isAvailable(this.entity)}
+        @click=${this.callService}
+      >
+        <ha-icon .icon=${getFanModeIcon(mode, this.icons)}></ha-icon>
+      </mushroom-button>
+    `;
+  }
+}
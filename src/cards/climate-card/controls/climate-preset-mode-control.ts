@@ -0,0 +1,77 @@
+import { html, LitElement, TemplateResult } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { styleMap } from "lit/directives/style-map.js";
+import {
+  ClimateEntity,
+  CLIMATE_SUPPORT_PRESET_MODE,
+  computeRTL,
+  HomeAssistant,
+  HvacMode,
+  isAvailable,
+  supportsFeature,
+} from "../../../ha";
+import "../../../shared/button";
+import "../../../shared/button-group";
+import { getHvacModeColor, getPresetModeIcon } from "../utils";
+
+export const isPresetModeVisible = (entity: ClimateEntity) =>
+  supportsFeature(entity, CLIMATE_SUPPORT_PRESET_MODE) &&
+  Boolean(entity.attributes.preset_modes?.length);
+
+@customElement("mushroom-climate-preset-mode-control")
+export class ClimatePresetModeControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: ClimateEntity;
+
+  @property() public fill: boolean = false;
+
+  private callService(e: CustomEvent) {
+    e.stopPropagation();
+    const mode = (e.target! as any).mode as string;
+    this.hass.callService("climate", "set_preset_mode", {
+      entity_id: this.entity!.entity_id,
+      preset_mode: mode,
+    });
+  }
+
+  protected render(): TemplateResult {
+    const rtl = computeRTL(this.hass);
+
+    const modes = this.entity.attributes.preset_modes ?? [];
+
+    return html`
+      <mushroom-button-group .fill=${this.fill} ?rtl=${rtl}>
+        ${modes.map((mode) => this.renderModeButton(mode))}
+      </mushroom-button-group>
+    `;
+  }
+
+  private renderModeButton(mode: string) {
+    const iconStyle = {};
+    const color =
+      this.entity.state === "off"
+        ? "var(--rgb-grey)"
+        : getHvacModeColor(this.entity.state as HvacMode);
+    if (mode === this.entity.attributes.preset_mode) {
+      iconStyle["--icon-color"] = `rgb(${color})`;
+      iconStyle["--bg-color"] = `rgba(${color}, 0.2)`;
+    }
+
+    return html`
+      <mushroom-button
+        style=${styleMap(iconStyle)}
+        .mode=${mode}
+        .title=${this.hass.formatEntityAttributeValue(
+          this.entity,
+          "preset_mode",
+          mode
+        )}
+        .disabled=${!isAvailable(this.entity)}
+        @click=${this.callService}
+      >
+        <ha-icon .icon=${getPresetModeIcon(mode)}></ha-icon>
+      </mushroom-button>
+    `;
+  }
+}
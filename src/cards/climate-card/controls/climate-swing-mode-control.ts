@@ -3,46 +3,42 @@ import { customElement, property } from "lit/decorators.js";
 import { styleMap } from "lit/directives/style-map.js";
 import {
   ClimateEntity,
-  compareClimateHvacModes,
+  CLIMATE_SUPPORT_SWING_MODE,
   computeRTL,
   HomeAssistant,
   HvacMode,
   isAvailable,
+  supportsFeature,
 } from "../../../ha";
 import "../../../shared/button";
 import "../../../shared/button-group";
-import { getHvacModeColor, getHvacModeIcon } from "../utils";
+import { getHvacModeColor, getSwingModeIcon } from "../utils";
 
-export const isHvacModesVisible = (entity: ClimateEntity, modes?: HvacMode[]) =>
-  (entity.attributes.hvac_modes || []).some((mode) =>
-    (modes ?? []).includes(mode)
-  );
+export const isSwingModeVisible = (entity: ClimateEntity) =>
+  supportsFeature(entity, CLIMATE_SUPPORT_SWING_MODE) &&
+  Boolean(entity.attributes.swing_modes?.length);
 
-@customElement("chrum-climate-hvac-modes-control")
-export class ClimateHvacModesControl extends LitElement {
+@customElement("mushroom-climate-swing-mode-control")
+export class ClimateSwingModeControl extends LitElement {
   @property({ attribute: false }) public hass!: HomeAssistant;
 
   @property({ attribute: false }) public entity!: ClimateEntity;
 
-  @property({ attribute: false }) public modes!: HvacMode[];
-
   @property() public fill: boolean = false;
 
   private callService(e: CustomEvent) {
     e.stopPropagation();
-    const mode = (e.target! as any).mode as HvacMode;
-    this.hass.callService("climate", "set_hvac_mode", {
+    const mode = (e.target! as any).mode as string;
+    this.hass.callService("climate", "set_swing_mode", {
       entity_id: this.entity!.entity_id,
-      hvac_mode: mode,
+      swing_mode: mode,
     });
   }
 
   protected render(): TemplateResult {
     const rtl = computeRTL(this.hass);
 
-    const modes = this.entity.attributes.hvac_modes
-      .filter((mode) => (this.modes ?? []).includes(mode))
-      .sort(compareClimateHvacModes);
+    const modes = this.entity.attributes.swing_modes ?? [];
 
     return html`
       <mushroom-button-group .fill=${this.fill} ?rtl=${rtl}>
@@ -51,10 +47,13 @@ export class ClimateHvacModesControl extends LitElement {
     `;
   }
 
-  private renderModeButton(mode: HvacMode) {
+  private renderModeButton(mode: string) {
     const iconStyle = {};
-    const color = mode === "off" ? "var(--rgb-grey)" : getHvacModeColor(mode);
-    if (mode === this.entity.state) {
+    const color =
+      this.entity.state === "off"
+        ? "var(--rgb-grey)"
+        : getHvacModeColor(this.entity.state as HvacMode);
+    if (mode === this.entity.attributes.swing_mode) {
       iconStyle["--icon-color"] = `rgb(${color})`;
       iconStyle["--bg-color"] = `rgba(${color}, 0.2)`;
     }
@@ -63,10 +62,15 @@ export class ClimateHvacModesControl extends LitElement {
       <mushroom-button
         style=${styleMap(iconStyle)}
         .mode=${mode}
+        .title=${this.hass.formatEntityAttributeValue(
+          this.entity,
+          "swing_mode",
+          mode
+        )}
         .disabled=${!isAvailable(this.entity)}
         @click=${this.callService}
       >
-        <ha-icon .icon=${getHvacModeIcon(mode)}></ha-icon>
+        <ha-icon .icon=${getSwingModeIcon(mode)}></ha-icon>
       </mushroom-button>
     `;
   }
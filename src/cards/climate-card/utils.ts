@@ -1,4 +1,4 @@
-import { HvacAction, HvacMode } from "../../ha";
+import { EntityHistoryState, HvacAction, HvacMode } from "../../ha";
 
 export const CLIMATE_HVAC_MODE_COLORS: Record<HvacMode, string> = {
   auto: "var(--rgb-state-climate-auto)",
@@ -53,3 +53,242 @@ export function getHvacModeIcon(hvacMode: HvacMode): string {
 export function getHvacActionIcon(hvacAction: HvacAction): string | undefined {
   return CLIMATE_HVAC_ACTION_ICONS[hvacAction] ?? "";
 }
+
+export const CLIMATE_PRESET_MODE_ICONS: Record<string, string> = {
+  none: "mdi:circle-medium",
+  away: "mdi:account-arrow-right",
+  boost: "mdi:rocket-launch",
+  comfort: "mdi:sofa",
+  eco: "mdi:leaf",
+  home: "mdi:home",
+  sleep: "mdi:bed",
+  activity: "mdi:motion-sensor",
+};
+
+export const CLIMATE_SWING_MODE_ICONS: Record<string, string> = {
+  on: "mdi:arrow-oscillating",
+  off: "mdi:arrow-oscillating-off",
+  both: "mdi:arrow-all",
+  vertical: "mdi:arrow-up-down",
+  horizontal: "mdi:arrow-left-right",
+};
+
+export const CLIMATE_FAN_MODE_ICONS: Record<string, string> = {
+  off: "mdi:fan-off",
+  on: "mdi:fan",
+  auto: "mdi:fan-auto",
+  low: "mdi:fan-speed-1",
+  medium: "mdi:fan-speed-2",
+  high: "mdi:fan-speed-3",
+  silence: "mdi:ear-hearing-off",
+  "level 1": "mdi:numeric-1",
+  "level 2": "mdi:numeric-2",
+  "level 3": "mdi:numeric-3",
+  "level 4": "mdi:numeric-4",
+  "level 5": "mdi:numeric-5",
+  "1": "mdi:numeric-1",
+  "2": "mdi:numeric-2",
+  "3": "mdi:numeric-3",
+  "4": "mdi:numeric-4",
+  "5": "mdi:numeric-5",
+};
+
+export function getFanModeIcon(
+  fanMode: string,
+  icons?: Record<string, string>
+): string {
+  return (
+    icons?.[fanMode] ??
+    CLIMATE_FAN_MODE_ICONS[fanMode.toLowerCase()] ??
+    "mdi:fan"
+  );
+}
+
+export function getPresetModeIcon(presetMode: string): string {
+  return CLIMATE_PRESET_MODE_ICONS[presetMode] ?? "mdi:tune-variant";
+}
+
+export function getSwingModeIcon(swingMode: string): string {
+  return CLIMATE_SWING_MODE_ICONS[swingMode] ?? "mdi:arrow-oscillating";
+}
+
+// [timestamp in ms, value]
+export type GraphPoint = [number, number];
+
+export type GraphBounds = {
+  min: number;
+  max: number;
+};
+
+export type HvacActionBand = {
+  start: number;
+  end: number;
+  action: HvacAction;
+};
+
+const GRAPH_BAND_ACTIONS: HvacAction[] = ["heating", "cooling"];
+
+export function computeHistoryPoints(
+  states: EntityHistoryState[],
+  attribute?: string
+): GraphPoint[] {
+  const points: GraphPoint[] = [];
+  for (const state of states) {
+    const raw = attribute ? state.a?.[attribute] : state.s;
+    const value = typeof raw === "number" ? raw : parseFloat(raw);
+    if (raw == null || isNaN(value)) continue;
+    points.push([state.lu * 1000, value]);
+  }
+  return points;
+}
+
+/**
+ * Averages points into fixed time buckets. History is a step function, so
+ * empty buckets keep the last known value instead of leaving a gap.
+ */
+export function downsamplePoints(
+  points: GraphPoint[],
+  start: number,
+  end: number,
+  buckets: number
+): GraphPoint[] {
+  if (!points.length || end <= start || buckets <= 0) return [];
+
+  const size = (end - start) / buckets;
+  const result: GraphPoint[] = [];
+  let index = 0;
+  let last: number | undefined;
+
+  for (let i = 0; i < buckets; i++) {
+    const bucketEnd = start + (i + 1) * size;
+    const values: number[] = [];
+    while (index < points.length && points[index][0] < bucketEnd) {
+      values.push(points[index][1]);
+      index++;
+    }
+    const time = start + (i + 0.5) * size;
+    if (values.length) {
+      const sum = values.reduce((acc, value) => acc + value, 0);
+      result.push([time, sum / values.length]);
+      last = values[values.length - 1];
+    } else if (last !== undefined) {
+      result.push([time, last]);
+    }
+  }
+  return result;
+}
+
+export function computeBounds(
+  ...series: GraphPoint[][]
+): GraphBounds | undefined {
+  const values = series.reduce<number[]>(
+    (acc, points) => acc.concat(points.map(([_, value]) => value)),
+    []
+  );
+  if (!values.length) return undefined;
+  return {
+    min: Math.min(...values),
+    max: Math.max(...values),
+  };
+}
+
+function computeCoordinates(
+  points: GraphPoint[],
+  start: number,
+  end: number,
+  bounds: GraphBounds,
+  width: number,
+  height: number
+): [number, number][] {
+  const range = bounds.max - bounds.min;
+  return points.map(([time, value]) => {
+    const x = ((time - start) / (end - start)) * width;
+    const y = range
+      ? height - ((value - bounds.min) / range) * height
+      : height / 2;
+    return [x, y];
+  });
+}
+
+export function computeLinePath(
+  points: GraphPoint[],
+  start: number,
+  end: number,
+  bounds: GraphBounds,
+  width: number,
+  height: number
+): string {
+  const coordinates = computeCoordinates(
+    points,
+    start,
+    end,
+    bounds,
+    width,
+    height
+  );
+  return coordinates
+    .map(([x, y], i) => `${i === 0 ? "M" : "L"}${x.toFixed(2)},${y.toFixed(2)}`)
+    .join(" ");
+}
+
+export function computeAreaPath(
+  points: GraphPoint[],
+  start: number,
+  end: number,
+  bounds: GraphBounds,
+  width: number,
+  height: number
+): string {
+  if (!points.length) return "";
+  const coordinates = computeCoordinates(
+    points,
+    start,
+    end,
+    bounds,
+    width,
+    height
+  );
+  const line = computeLinePath(points, start, end, bounds, width, height);
+  const first = coordinates[0][0].toFixed(2);
+  const last = coordinates[coordinates.length - 1][0].toFixed(2);
+  return `${line} L${last},${height} L${first},${height} Z`;
+}
+
+export function computeBandRect(
+  band: HvacActionBand,
+  start: number,
+  end: number,
+  width: number
+): { x: number; width: number } {
+  return {
+    x: ((band.start - start) / (end - start)) * width,
+    width: ((band.end - band.start) / (end - start)) * width,
+  };
+}
+
+export function computeHvacActionBands(
+  states: EntityHistoryState[],
+  start: number,
+  end: number
+): HvacActionBand[] {
+  const bands: HvacActionBand[] = [];
+  let current: HvacActionBand | undefined;
+
+  for (const state of states) {
+    const time = Math.max(state.lu * 1000, start);
+    const action = state.a?.hvac_action as HvacAction | undefined;
+    if (current && current.action === action) continue;
+    if (current) {
+      current.end = time;
+      bands.push(current);
+      current = undefined;
+    }
+    if (action && GRAPH_BAND_ACTIONS.includes(action)) {
+      current = { start: time, end, action };
+    }
+  }
+  if (current) {
+    bands.push(current);
+  }
+  return bands;
+}
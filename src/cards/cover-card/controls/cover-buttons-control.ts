@@ -20,6 +20,7 @@ import {
   computeCloseIcon,
   computeOpenIcon,
 } from "../../../utils/icons/cover-icon";
+import { CoverPositionMapping, getPosition } from "../utils";
 
 @customElement("mushroom-cover-buttons-control")
 export class CoverButtonsControl extends LitElement {
@@ -27,6 +28,8 @@ export class CoverButtonsControl extends LitElement {
 
   @property({ attribute: false }) public entity!: CoverEntity;
 
+  @property({ attribute: false }) public mapping?: CoverPositionMapping;
+
   @property() public fill: boolean = false;
 
   private _onOpenTap(e: MouseEvent): void {
@@ -53,14 +56,18 @@ export class CoverButtonsControl extends LitElement {
   private get openDisabled(): boolean {
     const assumedState = this.entity.attributes.assumed_state === true;
     return (
-      (isFullyOpen(this.entity) || isOpening(this.entity)) && !assumedState
+      (isFullyOpen(this.entity, getPosition(this.entity, this.mapping)) ||
+        isOpening(this.entity)) &&
+      !assumedState
     );
   }
 
   private get closedDisabled(): boolean {
     const assumedState = this.entity.attributes.assumed_state === true;
     return (
-      (isFullyClosed(this.entity) || isClosing(this.entity)) && !assumedState
+      (isFullyClosed(this.entity, getPosition(this.entity, this.mapping)) ||
+        isClosing(this.entity)) &&
+      !assumedState
     );
   }
 
@@ -2,7 +2,7 @@ import { css, CSSResultGroup, html, LitElement, TemplateResult } from "lit";
 import { customElement, property } from "lit/decorators.js";
 import { CoverEntity, HomeAssistant, isAvailable } from "../../../ha";
 import "../../../shared/slider";
-import { getPosition } from "../utils";
+import { CoverPositionMapping, getPosition, toCoverPosition } from "../utils";
 
 @customElement("mushroom-cover-position-control")
 export class CoverPositionControl extends LitElement {
@@ -10,12 +10,14 @@ export class CoverPositionControl extends LitElement {
 
   @property({ attribute: false }) public entity!: CoverEntity;
 
+  @property({ attribute: false }) public mapping?: CoverPositionMapping;
+
   private onChange(e: CustomEvent<{ value: number }>): void {
     const value = e.detail.value;
 
     this.hass.callService("cover", "set_cover_position", {
       entity_id: this.entity.entity_id,
-      position: value,
+      position: toCoverPosition(value, this.mapping),
     });
   }
 
@@ -31,7 +33,7 @@ export class CoverPositionControl extends LitElement {
   }
 
   protected render(): TemplateResult {
-    const position = getPosition(this.entity);
+    const position = getPosition(this.entity, this.mapping);
 
     return html`
       <mushroom-slider
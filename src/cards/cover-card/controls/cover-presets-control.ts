@@ -0,0 +1,113 @@
+import { css, CSSResultGroup, html, LitElement, TemplateResult } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import {
+  computeRTL,
+  CoverEntity,
+  COVER_SUPPORT_SET_POSITION,
+  COVER_SUPPORT_SET_TILT_POSITION,
+  HomeAssistant,
+  isAvailable,
+  supportsFeature,
+} from "../../../ha";
+import "../../../shared/button";
+import "../../../shared/button-group";
+import { CoverPositionPreset } from "../cover-card-config";
+import {
+  CoverPositionMapping,
+  getPosition,
+  getTiltPosition,
+  toCoverPosition,
+} from "../utils";
+
+export const isPresetsControlVisible = (presets?: CoverPositionPreset[]) =>
+  Boolean(presets?.length);
+
+export function isPresetActive(
+  entity: CoverEntity,
+  preset: CoverPositionPreset,
+  mapping?: CoverPositionMapping
+): boolean {
+  if (getPosition(entity, mapping) !== preset.position) return false;
+  return (
+    preset.tilt_position == null ||
+    getTiltPosition(entity) === preset.tilt_position
+  );
+}
+
+@customElement("mushroom-cover-presets-control")
+export class CoverPresetsControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: CoverEntity;
+
+  @property({ attribute: false }) public presets: CoverPositionPreset[] = [];
+
+  @property({ attribute: false }) public mapping?: CoverPositionMapping;
+
+  @property() public fill: boolean = false;
+
+  private _onPresetTap(e: MouseEvent, preset: CoverPositionPreset): void {
+    e.stopPropagation();
+    if (supportsFeature(this.entity, COVER_SUPPORT_SET_POSITION)) {
+      this.hass.callService("cover", "set_cover_position", {
+        entity_id: this.entity.entity_id,
+        position: toCoverPosition(preset.position, this.mapping),
+      });
+    }
+    if (
+      preset.tilt_position != null &&
+      supportsFeature(this.entity, COVER_SUPPORT_SET_TILT_POSITION)
+    ) {
+      this.hass.callService("cover", "set_cover_tilt_position", {
+        entity_id: this.entity.entity_id,
+        tilt_position: preset.tilt_position,
+      });
+    }
+  }
+
+  protected render(): TemplateResult {
+    const rtl = computeRTL(this.hass);
+
+    return html`
+      <mushroom-button-group .fill=${this.fill} ?rtl=${rtl}>
+        ${this.presets.map((preset) => {
+          const label = preset.label ?? `${preset.position}%`;
+          return html`
+            <mushroom-button
+              class=${classMap({
+                active: isPresetActive(this.entity, preset, this.mapping),
+              })}
+              .title=${label}
+              .disabled=${!isAvailable(this.entity)}
+              @click=${(e: MouseEvent) => this._onPresetTap(e, preset)}
+            >
+              ${preset.icon
+                ? html`<ha-icon .icon=${preset.icon}></ha-icon>`
+                : html`<span class="label">${label}</span>`}
+            </mushroom-button>
+          `;
+        })}
+      </mushroom-button-group>
+    `;
+  }
+
+  static get styles(): CSSResultGroup {
+    return css`
+      mushroom-button.active {
+        --icon-color: rgb(var(--rgb-state-cover-open));
+        --bg-color: rgba(var(--rgb-state-cover-open), 0.2);
+      }
+      .label {
+        font-size: var(--card-secondary-font-size);
+        font-weight: var(--card-primary-font-weight);
+        line-height: normal;
+        color: var(--icon-color);
+        white-space: nowrap;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        padding: 0 4px;
+      }
+    `;
+  }
+}
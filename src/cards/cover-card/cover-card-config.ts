@@ -1,11 +1,20 @@
-import { assign, boolean, object, optional } from "superstruct";
+import {
+  array,
+  assign,
+  boolean,
+  number,
+  object,
+  optional,
+  string,
+  tuple,
+} from "superstruct";
 import {
   actionsSharedConfigStruct,
   ActionsSharedConfig,
 } from "../../shared/config/actions-config";
 import {
-  appearanceSharedConfigStruct,
   AppearanceSharedConfig,
+  computeAppearanceConfigStruct,
 } from "../../shared/config/appearance-config";
 import {
   entitySharedConfigStruct,
@@ -13,6 +22,14 @@ import {
 } from "../../shared/config/entity-config";
 import { lovelaceCardConfigStruct } from "../../shared/config/lovelace-card-config";
 import { LovelaceCardConfig } from "../../ha";
+import { ICON_TYPES } from "../../utils/info";
+
+export type CoverPositionPreset = {
+  label?: string;
+  icon?: string;
+  position: number;
+  tilt_position?: number;
+};
 
 export type CoverCardConfig = LovelaceCardConfig &
   EntitySharedConfig &
@@ -21,18 +38,31 @@ export type CoverCardConfig = LovelaceCardConfig &
     show_buttons_control?: false;
     show_position_control?: false;
     show_tilt_position_control?: false;
+    position_presets?: CoverPositionPreset[];
+    invert_position?: boolean;
+    position_range?: [number, number];
   };
 
+const coverPositionPresetStruct = object({
+  label: optional(string()),
+  icon: optional(string()),
+  position: number(),
+  tilt_position: optional(number()),
+});
+
 export const coverCardConfigStruct = assign(
   lovelaceCardConfigStruct,
   assign(
     entitySharedConfigStruct,
-    appearanceSharedConfigStruct,
+    computeAppearanceConfigStruct(undefined, [...ICON_TYPES, "visual"]),
     actionsSharedConfigStruct
   ),
   object({
     show_buttons_control: optional(boolean()),
     show_position_control: optional(boolean()),
     show_tilt_position_control: optional(boolean()),
+    position_presets: optional(array(coverPositionPresetStruct)),
+    invert_position: optional(boolean()),
+    position_range: optional(tuple([number(), number()])),
   })
 );
@@ -4,10 +4,11 @@ import { assert } from "superstruct";
 import { LovelaceCardEditor, fireEvent } from "../../ha";
 import setupCustomlocalize from "../../localize";
 import { computeActionsFormSchema } from "../../shared/config/actions-config";
-import { APPEARANCE_FORM_SCHEMA } from "../../shared/config/appearance-config";
+import { computeAppearanceFormSchema } from "../../shared/config/appearance-config";
 import { MushroomBaseElement } from "../../utils/base-element";
 import { GENERIC_LABELS } from "../../utils/form/generic-fields";
 import { HaFormSchema } from "../../utils/form/ha-form";
+import { ICON_TYPES } from "../../utils/info";
 import { loadHaComponents } from "../../utils/loader";
 import { COVER_CARD_EDITOR_NAME, COVER_ENTITY_DOMAINS } from "./const";
 import { CoverCardConfig, coverCardConfigStruct } from "./cover-card-config";
@@ -16,13 +17,15 @@ const COVER_LABELS = [
   "show_buttons_control",
   "show_position_control",
   "show_tilt_position_control",
+  "position_presets",
+  "invert_position",
 ];
 
 const SCHEMA: HaFormSchema[] = [
   { name: "entity", selector: { entity: { domain: COVER_ENTITY_DOMAINS } } },
   { name: "name", selector: { text: {} } },
   { name: "icon", selector: { icon: {} }, context: { icon_entity: "entity" } },
-  ...APPEARANCE_FORM_SCHEMA,
+  ...computeAppearanceFormSchema(undefined, [...ICON_TYPES, "visual"]),
   {
     type: "grid",
     name: "",
@@ -30,8 +33,10 @@ const SCHEMA: HaFormSchema[] = [
       { name: "show_position_control", selector: { boolean: {} } },
       { name: "show_tilt_position_control", selector: { boolean: {} } },
       { name: "show_buttons_control", selector: { boolean: {} } },
+      { name: "invert_position", selector: { boolean: {} } },
     ],
   },
+  { name: "position_presets", selector: { object: {} } },
   ...computeActionsFormSchema(),
 ];
 
@@ -18,6 +18,8 @@ import {
   hasAction,
   HomeAssistant,
   isAvailable,
+  isClosing,
+  isOpening,
   LovelaceCard,
   LovelaceCardEditor,
 } from "../../ha";
@@ -32,6 +34,7 @@ import { computeAppearance } from "../../utils/appearance";
 import { MushroomBaseCard } from "../../utils/base-card";
 import { cardStyle } from "../../utils/card-styles";
 import { registerCustomCard } from "../../utils/custom-cards";
+import { getCoverStateSVG, coverSVGStyles } from "../../utils/cover";
 import { computeEntityPicture } from "../../utils/info";
 import { Layout } from "../../utils/layout";
 import {
@@ -41,19 +44,28 @@ import {
 } from "./const";
 import "./controls/cover-buttons-control";
 import "./controls/cover-position-control";
+import "./controls/cover-presets-control";
+import { isPresetsControlVisible } from "./controls/cover-presets-control";
 import "./controls/cover-tilt-position-control";
 import { CoverCardConfig } from "./cover-card-config";
-import { getPosition, getStateColor } from "./utils";
+import {
+  CoverPositionMapping,
+  getPosition,
+  getStateColor,
+  getTiltPosition,
+} from "./utils";
 
 type CoverCardControl =
   | "buttons_control"
   | "position_control"
-  | "tilt_position_control";
+  | "tilt_position_control"
+  | "presets_control";
 
 const CONTROLS_ICONS: Record<CoverCardControl, string> = {
   buttons_control: "mdi:gesture-tap-button",
   position_control: "mdi:gesture-swipe-horizontal",
   tilt_position_control: "mdi:rotate-right",
+  presets_control: "mdi:star-outline",
 };
 
 registerCustomCard({
@@ -136,6 +148,9 @@ export class CoverCard
     if (this._config.show_tilt_position_control) {
       controls.push("tilt_position_control");
     }
+    if (isPresetsControlVisible(this._config.position_presets)) {
+      controls.push("presets_control");
+    }
     return controls;
   }
 
@@ -156,6 +171,13 @@ export class CoverCard
     }
   }
 
+  private get _positionMapping(): CoverPositionMapping {
+    return {
+      invert: this._config?.invert_position,
+      range: this._config?.position_range,
+    };
+  }
+
   @state()
   private position?: number;
 
@@ -164,7 +186,7 @@ export class CoverCard
     const stateObj = this._stateObj;
 
     if (!stateObj) return;
-    this.position = getPosition(stateObj);
+    this.position = getPosition(stateObj, this._positionMapping);
   }
 
   private onCurrentPositionChange(e: CustomEvent<{ value?: number }>): void {
@@ -221,7 +243,9 @@ export class CoverCard
           >
             ${picture
               ? this.renderPicture(picture)
-              : this.renderIcon(stateObj, icon)}
+              : appearance.icon_type === "visual"
+                ? this.renderVisual(stateObj)
+                : this.renderIcon(stateObj, icon)}
             ${this.renderBadge(stateObj)}
             ${this.renderStateInfo(stateObj, appearance, name, stateDisplay)};
           </mushroom-state-item>
@@ -260,6 +284,31 @@ export class CoverCard
     `;
   }
 
+  private renderVisual(stateObj: CoverEntity): TemplateResult {
+    const iconStyle = {};
+    const available = isAvailable(stateObj);
+    const color = getStateColor(stateObj);
+    iconStyle["--icon-color"] = `rgb(${color})`;
+    iconStyle["--shape-color"] = `rgba(${color}, 0.2)`;
+
+    const position = this.position ?? (stateObj.state === "closed" ? 0 : 100);
+
+    return html`
+      <mushroom-shape-icon
+        slot="icon"
+        .disabled=${!available}
+        style=${styleMap(iconStyle)}
+      >
+        ${getCoverStateSVG(
+          stateObj.attributes.device_class,
+          position,
+          getTiltPosition(stateObj),
+          isOpening(stateObj) || isClosing(stateObj)
+        )}
+      </mushroom-shape-icon>
+    `;
+  }
+
   private renderNextControlButton() {
     if (!this._nextControl || this._nextControl == this._activeControl)
       return nothing;
@@ -278,6 +327,7 @@ export class CoverCard
           <mushroom-cover-buttons-control
             .hass=${this.hass}
             .entity=${stateObj}
+            .mapping=${this._positionMapping}
             .fill=${layout !== "horizontal"}
           ></mushroom-cover-buttons-control>
         `;
@@ -291,6 +341,7 @@ export class CoverCard
           <mushroom-cover-position-control
             .hass=${this.hass}
             .entity=${stateObj}
+            .mapping=${this._positionMapping}
             @current-change=${this.onCurrentPositionChange}
             style=${styleMap(sliderStyle)}
           ></mushroom-cover-position-control>
@@ -310,6 +361,16 @@ export class CoverCard
           ></mushroom-cover-tilt-position-control>
         `;
       }
+      case "presets_control":
+        return html`
+          <mushroom-cover-presets-control
+            .hass=${this.hass}
+            .entity=${stateObj}
+            .presets=${this._config?.position_presets ?? []}
+            .mapping=${this._positionMapping}
+            .fill=${layout !== "horizontal"}
+          ></mushroom-cover-presets-control>
+        `;
       default:
         return nothing;
     }
@@ -319,6 +380,7 @@ export class CoverCard
     return [
       super.styles,
       cardStyle,
+      coverSVGStyles,
       css`
         mushroom-state-item {
           cursor: pointer;
@@ -328,7 +390,8 @@ export class CoverCard
           --shape-color: rgba(var(--rgb-state-cover), 0.2);
         }
         mushroom-cover-buttons-control,
-        mushroom-cover-position-control {
+        mushroom-cover-position-control,
+        mushroom-cover-presets-control {
           flex: 1;
         }
         mushroom-cover-tilt-position-control {
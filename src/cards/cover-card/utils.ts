@@ -1,8 +1,43 @@
 import { CoverEntity } from "../../ha";
 
-export function getPosition(entity: CoverEntity) {
+export type CoverPositionMapping = {
+  invert?: boolean;
+  range?: [number, number];
+};
+
+/**
+ * Converts a position reported by the cover to the 0-100 scale shown in the
+ * card, where 0 is closed and 100 is open.
+ */
+export function toDisplayPosition(
+  position: number,
+  mapping?: CoverPositionMapping
+): number {
+  const [min, max] = mapping?.range ?? [0, 100];
+  const scaled =
+    max === min ? position : ((position - min) / (max - min)) * 100;
+  const clamped = Math.min(100, Math.max(0, scaled));
+  return Math.round(mapping?.invert ? 100 - clamped : clamped);
+}
+
+/**
+ * Converts a position of the card scale to the value expected by the cover.
+ */
+export function toCoverPosition(
+  position: number,
+  mapping?: CoverPositionMapping
+): number {
+  const [min, max] = mapping?.range ?? [0, 100];
+  const value = mapping?.invert ? 100 - position : position;
+  return Math.round(min + (value / 100) * (max - min));
+}
+
+export function getPosition(
+  entity: CoverEntity,
+  mapping?: CoverPositionMapping
+) {
   return entity.attributes.current_position != null
-    ? Math.round(entity.attributes.current_position)
+    ? toDisplayPosition(entity.attributes.current_position, mapping)
     : undefined;
 }
 
@@ -1,9 +1,19 @@
 import { HassEntity } from "home-assistant-js-websocket";
 import { css, CSSResultGroup, html, LitElement, TemplateResult } from "lit";
 import { customElement, property } from "lit/decorators.js";
-import { HomeAssistant, isActive, isAvailable } from "../../../ha";
+import { styleMap } from "lit/directives/style-map.js";
+import { computeRTL, HomeAssistant, isActive, isAvailable } from "../../../ha";
+import "../../../shared/button";
+import "../../../shared/button-group";
 import "../../../shared/slider";
-import { computePercentageStep, getPercentage } from "../utils";
+import { FanPercentageDisplayMode } from "../fan-card-config";
+import {
+  computePercentageStep,
+  computeSpeedCount,
+  FAN_SPEED_COUNT_MAX_FOR_BUTTONS,
+  getPercentage,
+  snapPercentage,
+} from "../utils";
 
 @customElement("mushroom-fan-percentage-control")
 export class FanPercentageControl extends LitElement {
@@ -11,16 +21,29 @@ export class FanPercentageControl extends LitElement {
 
   @property({ attribute: false }) public entity!: HassEntity;
 
-  onChange(e: CustomEvent<{ value: number }>): void {
-    const value = e.detail.value;
+  @property() public mode: FanPercentageDisplayMode = "slider";
+
+  private _setPercentage(percentage: number) {
     this.hass.callService("fan", "set_percentage", {
       entity_id: this.entity.entity_id,
-      percentage: value,
+      percentage,
     });
   }
 
+  onChange(e: CustomEvent<{ value: number }>): void {
+    this._setPercentage(snapPercentage(this.entity, e.detail.value));
+  }
+
+  private _onSpeedTap(e: MouseEvent, percentage: number): void {
+    e.stopPropagation();
+    this._setPercentage(percentage);
+  }
+
   onCurrentChange(e: CustomEvent<{ value?: number }>): void {
-    const value = e.detail.value;
+    const value =
+      e.detail.value != null
+        ? snapPercentage(this.entity, e.detail.value)
+        : undefined;
     this.dispatchEvent(
       new CustomEvent("current-change", {
         detail: {
@@ -33,6 +56,13 @@ export class FanPercentageControl extends LitElement {
   protected render(): TemplateResult {
     const percentage = getPercentage(this.entity);
 
+    if (
+      this.mode === "buttons" &&
+      computeSpeedCount(this.entity) <= FAN_SPEED_COUNT_MAX_FOR_BUTTONS
+    ) {
+      return this.renderButtons(percentage);
+    }
+
     return html`
       <mushroom-slider
         .value=${percentage}
@@ -46,8 +76,54 @@ export class FanPercentageControl extends LitElement {
     `;
   }
 
+  private renderButtons(percentage?: number): TemplateResult {
+    const rtl = computeRTL(this.hass);
+    const step = computePercentageStep(this.entity);
+    const speeds = Array.from(
+      { length: computeSpeedCount(this.entity) },
+      (_, index) => index + 1
+    );
+    const active = isActive(this.entity);
+    const currentSpeed =
+      active && percentage ? Math.round(percentage / step) : undefined;
+
+    return html`
+      <mushroom-button-group fill ?rtl=${rtl}>
+        ${speeds.map((speed) => {
+          const speedPercentage = Math.round(speed * step);
+          const style =
+            speed === currentSpeed
+              ? {
+                  "--icon-color": "rgb(var(--rgb-state-fan))",
+                  "--bg-color": "rgba(var(--rgb-state-fan), 0.2)",
+                }
+              : {};
+          return html`
+            <mushroom-button
+              style=${styleMap(style)}
+              .title=${this.hass.formatEntityAttributeValue(
+                this.entity,
+                "percentage",
+                speedPercentage
+              )}
+              .disabled=${!isAvailable(this.entity)}
+              @click=${(e: MouseEvent) => this._onSpeedTap(e, speedPercentage)}
+            >
+              <span class="speed">${speed}</span>
+            </mushroom-button>
+          `;
+        })}
+      </mushroom-button-group>
+    `;
+  }
+
   static get styles(): CSSResultGroup {
     return css`
+      .speed {
+        font-size: var(--card-primary-font-size);
+        font-weight: var(--card-primary-font-weight);
+        line-height: 1;
+      }
       mushroom-slider {
         --main-color: rgb(var(--rgb-state-fan));
         --bg-color: rgba(var(--rgb-state-fan), 0.2);
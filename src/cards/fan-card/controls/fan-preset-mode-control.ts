@@ -0,0 +1,72 @@
+import { HassEntity } from "home-assistant-js-websocket";
+import { html, LitElement, TemplateResult } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { styleMap } from "lit/directives/style-map.js";
+import {
+  computeRTL,
+  FAN_SUPPORT_PRESET_MODE,
+  HomeAssistant,
+  isAvailable,
+  supportsFeature,
+} from "../../../ha";
+import "../../../shared/button";
+import "../../../shared/button-group";
+import { getPresetModeIcon } from "../utils";
+
+export const isPresetModeVisible = (entity: HassEntity) =>
+  supportsFeature(entity, FAN_SUPPORT_PRESET_MODE) &&
+  Boolean(entity.attributes.preset_modes?.length);
+
+@customElement("mushroom-fan-preset-mode-control")
+export class FanPresetModeControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: HassEntity;
+
+  @property() public fill: boolean = false;
+
+  private callService(e: CustomEvent) {
+    e.stopPropagation();
+    const mode = (e.target! as any).mode as string;
+    this.hass.callService("fan", "set_preset_mode", {
+      entity_id: this.entity!.entity_id,
+      preset_mode: mode,
+    });
+  }
+
+  protected render(): TemplateResult {
+    const rtl = computeRTL(this.hass);
+
+    const modes: string[] = this.entity.attributes.preset_modes ?? [];
+
+    return html`
+      <mushroom-button-group .fill=${this.fill} ?rtl=${rtl}>
+        ${modes.map((mode) => this.renderModeButton(mode))}
+      </mushroom-button-group>
+    `;
+  }
+
+  private renderModeButton(mode: string) {
+    const iconStyle = {};
+    if (mode === this.entity.attributes.preset_mode) {
+      iconStyle["--icon-color"] = `rgb(var(--rgb-state-fan))`;
+      iconStyle["--bg-color"] = `rgba(var(--rgb-state-fan), 0.2)`;
+    }
+
+    return html`
+      <mushroom-button
+        style=${styleMap(iconStyle)}
+        .mode=${mode}
+        .title=${this.hass.formatEntityAttributeValue(
+          this.entity,
+          "preset_mode",
+          mode
+        )}
+        .disabled=${!isAvailable(this.entity)}
+        @click=${this.callService}
+      >
+        <ha-icon .icon=${getPresetModeIcon(mode)}></ha-icon>
+      </mushroom-button>
+    `;
+  }
+}
@@ -1,4 +1,4 @@
-import { assign, boolean, object, optional } from "superstruct";
+import { assign, boolean, enums, object, optional } from "superstruct";
 import {
   actionsSharedConfigStruct,
   ActionsSharedConfig,
@@ -14,12 +14,19 @@ import {
 import { lovelaceCardConfigStruct } from "../../shared/config/lovelace-card-config";
 import { LovelaceCardConfig } from "../../ha";
 
+export const FAN_PERCENTAGE_DISPLAY_MODES = ["slider", "buttons"] as const;
+
+export type FanPercentageDisplayMode =
+  (typeof FAN_PERCENTAGE_DISPLAY_MODES)[number];
+
 export type FanCardConfig = LovelaceCardConfig &
   EntitySharedConfig &
   AppearanceSharedConfig &
   ActionsSharedConfig & {
     icon_animation?: boolean;
     show_percentage_control?: boolean;
+    percentage_display_mode?: FanPercentageDisplayMode;
+    show_preset_mode_control?: boolean;
     show_oscillate_control?: boolean;
     show_direction_control?: boolean;
     collapsible_controls?: boolean;
@@ -35,6 +42,8 @@ export const fanCardConfigStruct = assign(
   object({
     icon_animation: optional(boolean()),
     show_percentage_control: optional(boolean()),
+    percentage_display_mode: optional(enums(FAN_PERCENTAGE_DISPLAY_MODES)),
+    show_preset_mode_control: optional(boolean()),
     show_oscillate_control: optional(boolean()),
     show_direction_control: optional(boolean()),
     collapsible_controls: optional(boolean()),
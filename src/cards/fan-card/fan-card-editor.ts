@@ -1,7 +1,8 @@
 import { html, nothing } from "lit";
 import { customElement, state } from "lit/decorators.js";
+import memoizeOne from "memoize-one";
 import { assert } from "superstruct";
-import { LovelaceCardEditor, fireEvent } from "../../ha";
+import { LocalizeFunc, LovelaceCardEditor, fireEvent } from "../../ha";
 import setupCustomlocalize from "../../localize";
 import { computeActionsFormSchema } from "../../shared/config/actions-config";
 import { APPEARANCE_FORM_SCHEMA } from "../../shared/config/appearance-config";
@@ -10,16 +11,43 @@ import { GENERIC_LABELS } from "../../utils/form/generic-fields";
 import { HaFormSchema } from "../../utils/form/ha-form";
 import { loadHaComponents } from "../../utils/loader";
 import { FAN_CARD_EDITOR_NAME, FAN_ENTITY_DOMAINS } from "./const";
-import { FanCardConfig, fanCardConfigStruct } from "./fan-card-config";
+import {
+  FAN_PERCENTAGE_DISPLAY_MODES,
+  FanCardConfig,
+  fanCardConfigStruct,
+  FanPercentageDisplayMode,
+} from "./fan-card-config";
+
+// The form shows a "default" option where the config has no value
+type FanCardEditorData = {
+  [K in keyof FanCardConfig]: K extends "percentage_display_mode"
+    ? FanPercentageDisplayMode | "default"
+    : FanCardConfig[K];
+};
+
+const toEditorData = (config: FanCardConfig): FanCardEditorData => ({
+  ...config,
+  percentage_display_mode: config.percentage_display_mode ?? "default",
+});
+
+const fromEditorData = ({
+  percentage_display_mode,
+  ...config
+}: FanCardEditorData): FanCardConfig =>
+  percentage_display_mode === "default"
+    ? config
+    : { ...config, percentage_display_mode };
 
 const FAN_LABELS = [
   "icon_animation",
   "show_percentage_control",
+  "percentage_display_mode",
+  "show_preset_mode_control",
   "show_oscillate_control",
-  "show_direction_control"
+  "show_direction_control",
 ];
 
-const SCHEMA: HaFormSchema[] = [
+const computeSchema = memoizeOne((localize: LocalizeFunc): HaFormSchema[] => [
   { name: "entity", selector: { entity: { domain: FAN_ENTITY_DOMAINS } } },
   { name: "name", selector: { text: {} } },
   {
@@ -40,13 +68,28 @@ const SCHEMA: HaFormSchema[] = [
     name: "",
     schema: [
       { name: "show_percentage_control", selector: { boolean: {} } },
+      { name: "show_preset_mode_control", selector: { boolean: {} } },
       { name: "show_oscillate_control", selector: { boolean: {} } },
       { name: "show_direction_control", selector: { boolean: {} } },
       { name: "collapsible_controls", selector: { boolean: {} } },
     ],
   },
+  {
+    name: "percentage_display_mode",
+    selector: {
+      select: {
+        options: ["default", ...FAN_PERCENTAGE_DISPLAY_MODES].map((mode) => ({
+          value: mode,
+          label: localize(
+            `editor.card.fan.percentage_display_mode_list.${mode}`
+          ),
+        })),
+        mode: "dropdown",
+      },
+    },
+  },
   ...computeActionsFormSchema(),
-];
+]);
 
 @customElement(FAN_CARD_EDITOR_NAME)
 export class FanCardEditor
@@ -84,11 +127,17 @@ export class FanCardEditor
       return nothing;
     }
 
+    const customLocalize = setupCustomlocalize(this.hass);
+
+    const schema = computeSchema(customLocalize);
+
+    const data = toEditorData(this._config);
+
     return html`
       <ha-form
         .hass=${this.hass}
-        .data=${this._config}
-        .schema=${SCHEMA}
+        .data=${data}
+        .schema=${schema}
         .computeLabel=${this._computeLabel}
         @value-changed=${this._valueChanged}
       ></ha-form>
@@ -96,6 +145,8 @@ export class FanCardEditor
   }
 
   private _valueChanged(ev: CustomEvent): void {
-    fireEvent(this, "config-changed", { config: ev.detail.value });
+    const config = fromEditorData(ev.detail.value);
+
+    fireEvent(this, "config-changed", { config });
   }
 }
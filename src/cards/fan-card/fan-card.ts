@@ -33,6 +33,7 @@ import { MushroomBaseCard } from "../../utils/base-card";
 import { cardStyle } from "../../utils/card-styles";
 import { registerCustomCard } from "../../utils/custom-cards";
 import { computeEntityPicture } from "../../utils/info";
+import { Layout } from "../../utils/layout";
 import {
   FAN_CARD_EDITOR_NAME,
   FAN_CARD_NAME,
@@ -41,9 +42,18 @@ import {
 import "./controls/fan-oscillate-control";
 import "./controls/fan-direction-control";
 import "./controls/fan-percentage-control";
+import "./controls/fan-preset-mode-control";
+import { isPresetModeVisible } from "./controls/fan-preset-mode-control";
 import { FanCardConfig } from "./fan-card-config";
 import { getPercentage } from "./utils";
 
+type FanCardControl = "percentage_control" | "preset_mode_control";
+
+const CONTROLS_ICONS: Record<FanCardControl, string> = {
+  percentage_control: "mdi:fan",
+  preset_mode_control: "mdi:tune-variant",
+};
+
 registerCustomCard({
   type: FAN_CARD_NAME,
   name: "Mushroom Fan Card",
@@ -73,14 +83,47 @@ export class FanCard
     };
   }
 
+  @state() private _activeControl?: FanCardControl;
+
+  private get _controls(): FanCardControl[] {
+    if (!this._config || !this._stateObj) return [];
+
+    const stateObj = this._stateObj;
+    const controls: FanCardControl[] = [];
+    if (this._config.show_percentage_control) {
+      controls.push("percentage_control");
+    }
+    if (
+      this._config.show_preset_mode_control &&
+      isPresetModeVisible(stateObj)
+    ) {
+      controls.push("preset_mode_control");
+    }
+    return controls;
+  }
+
   protected get hasControls(): boolean {
     return (
-      Boolean(this._config?.show_percentage_control) ||
+      this._controls.length > 0 ||
       Boolean(this._config?.show_oscillate_control) ||
       Boolean(this._config?.show_direction_control)
     );
   }
 
+  _onControlTap(ctrl, e): void {
+    e.stopPropagation();
+    this._activeControl = ctrl;
+  }
+
+  updateActiveControl() {
+    const isActiveControlSupported = this._activeControl
+      ? this._controls.includes(this._activeControl)
+      : false;
+    this._activeControl = isActiveControlSupported
+      ? this._activeControl
+      : this._controls[0];
+  }
+
   setConfig(config: FanCardConfig): void {
     super.setConfig({
       tap_action: {
@@ -91,12 +134,14 @@ export class FanCard
       },
       ...config,
     });
+    this.updateActiveControl();
     this.updatePercentage();
   }
 
   protected updated(changedProperties: PropertyValues) {
     super.updated(changedProperties);
     if (this.hass && changedProperties.has("hass")) {
+      this.updateActiveControl();
       this.updatePercentage();
     }
   }
@@ -151,9 +196,7 @@ export class FanCard
 
     const displayControls =
       (!this._config.collapsible_controls || isActive(stateObj)) &&
-      (this._config.show_percentage_control ||
-        this._config.show_oscillate_control ||
-        this._config.show_direction_control);
+      this.hasControls;
 
     return html`
       <ha-card
@@ -178,31 +221,24 @@ export class FanCard
           ${displayControls
             ? html`
                 <div class="actions" ?rtl=${rtl}>
-                  ${this._config.show_percentage_control
+                  ${this.renderActiveControl(stateObj, appearance.layout)}
+                  ${this.renderOtherControls()}
+                  ${this._config.show_oscillate_control
                     ? html`
-                        <mushroom-fan-percentage-control
+                        <mushroom-fan-oscillate-control
                           .hass=${this.hass}
                           .entity=${stateObj}
-                          @current-change=${this.onCurrentPercentageChange}
-                        ></mushroom-fan-percentage-control>
+                        ></mushroom-fan-oscillate-control>
                       `
                     : nothing}
-                  ${this._config.show_oscillate_control
+                  ${this._config.show_direction_control
                     ? html`
-                        <mushroom-fan-oscillate-control
+                        <mushroom-fan-direction-control
                           .hass=${this.hass}
                           .entity=${stateObj}
-                        ></mushroom-fan-oscillate-control>
+                        ></mushroom-fan-direction-control>
                       `
                     : nothing}
-                  ${this._config.show_direction_control
-                  ? html`
-                      <mushroom-fan-direction-control
-                        .hass=${this.hass}
-                        .entity=${stateObj}
-                      ></mushroom-fan-direction-control>
-                    `
-                  : nothing}
                 </div>
               `
             : nothing}
@@ -211,6 +247,46 @@ export class FanCard
     `;
   }
 
+  private renderOtherControls(): TemplateResult | null {
+    const otherControls = this._controls.filter(
+      (control) => control != this._activeControl
+    );
+
+    return html`
+      ${otherControls.map(
+        (ctrl) => html`
+          <mushroom-button @click=${(e) => this._onControlTap(ctrl, e)}>
+            <ha-icon .icon=${CONTROLS_ICONS[ctrl]}></ha-icon>
+          </mushroom-button>
+        `
+      )}
+    `;
+  }
+
+  private renderActiveControl(entity: HassEntity, layout?: Layout) {
+    switch (this._activeControl) {
+      case "percentage_control":
+        return html`
+          <mushroom-fan-percentage-control
+            .hass=${this.hass}
+            .entity=${entity}
+            .mode=${this._config?.percentage_display_mode ?? "slider"}
+            @current-change=${this.onCurrentPercentageChange}
+          ></mushroom-fan-percentage-control>
+        `;
+      case "preset_mode_control":
+        return html`
+          <mushroom-fan-preset-mode-control
+            .hass=${this.hass}
+            .entity=${entity}
+            .fill=${layout !== "horizontal"}
+          ></mushroom-fan-preset-mode-control>
+        `;
+      default:
+        return nothing;
+    }
+  }
+
   protected renderIcon(stateObj: HassEntity, icon?: string): TemplateResult {
     let iconStyle = {};
     const percentage = getPercentage(stateObj);
@@ -257,7 +333,8 @@ export class FanCard
         .spin ha-state-icon {
           animation: var(--animation-duration) infinite linear spin;
         }
-        mushroom-fan-percentage-control {
+        mushroom-fan-percentage-control,
+        mushroom-fan-preset-mode-control {
           flex: 1;
         }
       `,
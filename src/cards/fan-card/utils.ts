@@ -18,3 +18,32 @@ export function computePercentageStep(stateObj: HassEntity) {
   }
   return 1;
 }
+
+// Above this count, speeds are too many to be shown as buttons
+export const FAN_SPEED_COUNT_MAX_FOR_BUTTONS = 6;
+
+export function computeSpeedCount(stateObj: HassEntity): number {
+  return Math.round(100 / computePercentageStep(stateObj));
+}
+
+export function snapPercentage(stateObj: HassEntity, percentage: number) {
+  const step = computePercentageStep(stateObj);
+  return Math.round(Math.round(percentage / step) * step);
+}
+
+export const FAN_PRESET_MODE_ICONS: Record<string, string> = {
+  auto: "mdi:fan-auto",
+  smart: "mdi:brain",
+  sleep: "mdi:power-sleep",
+  eco: "mdi:leaf",
+  natural: "mdi:tree",
+  nature: "mdi:tree",
+  breeze: "mdi:weather-windy",
+  normal: "mdi:fan",
+  turbo: "mdi:fan-plus",
+  baby: "mdi:baby-carriage",
+};
+
+export function getPresetModeIcon(mode: string): string {
+  return FAN_PRESET_MODE_ICONS[mode.toLowerCase()] ?? "mdi:fan";
+}
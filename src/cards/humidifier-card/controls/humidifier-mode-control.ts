@@ -0,0 +1,76 @@
+import { html, LitElement, TemplateResult } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { styleMap } from "lit/directives/style-map.js";
+import {
+  computeRTL,
+  HomeAssistant,
+  HumidifierEntity,
+  HUMIDIFIER_SUPPORT_MODES,
+  isAvailable,
+  supportsFeature,
+} from "../../../ha";
+import "../../../shared/button";
+import "../../../shared/button-group";
+import { getHumidifierModeIcon } from "../utils";
+
+export const isModeVisible = (entity: HumidifierEntity) =>
+  supportsFeature(entity, HUMIDIFIER_SUPPORT_MODES) &&
+  Boolean(entity.attributes.available_modes?.length);
+
+@customElement("mushroom-humidifier-mode-control")
+export class HumidifierModeControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: HumidifierEntity;
+
+  @property() public fill: boolean = false;
+
+  private callService(e: CustomEvent) {
+    e.stopPropagation();
+    const mode = (e.target! as any).mode as string;
+    this.hass.callService("humidifier", "set_mode", {
+      entity_id: this.entity!.entity_id,
+      mode: mode,
+    });
+  }
+
+  protected render(): TemplateResult {
+    const rtl = computeRTL(this.hass);
+
+    const modes = this.entity.attributes.available_modes ?? [];
+
+    return html`
+      <mushroom-button-group .fill=${this.fill} ?rtl=${rtl}>
+        ${modes.map((mode) => this.renderModeButton(mode))}
+      </mushroom-button-group>
+    `;
+  }
+
+  private renderModeButton(mode: string) {
+    const iconStyle = {};
+    const color =
+      this.entity.state === "off"
+        ? "var(--rgb-grey)"
+        : "var(--rgb-state-humidifier)";
+    if (mode === this.entity.attributes.mode) {
+      iconStyle["--icon-color"] = `rgb(${color})`;
+      iconStyle["--bg-color"] = `rgba(${color}, 0.2)`;
+    }
+
+    return html`
+      <mushroom-button
+        style=${styleMap(iconStyle)}
+        .mode=${mode}
+        .title=${this.hass.formatEntityAttributeValue(
+          this.entity,
+          "mode",
+          mode
+        )}
+        .disabled=${!isAvailable(this.entity)}
+        @click=${this.callService}
+      >
+        <ha-icon .icon=${getHumidifierModeIcon(mode)}></ha-icon>
+      </mushroom-button>
+    `;
+  }
+}
@@ -6,19 +6,22 @@ import {
 } from "../../shared/config/actions-config";
 import {
   AppearanceSharedConfig,
-  appearanceSharedConfigStruct,
+  computeAppearanceConfigStruct,
 } from "../../shared/config/appearance-config";
 import {
   EntitySharedConfig,
   entitySharedConfigStruct,
 } from "../../shared/config/entity-config";
 import { lovelaceCardConfigStruct } from "../../shared/config/lovelace-card-config";
+import { INFOS } from "../../utils/info";
 
 export type HumidifierCardConfig = LovelaceCardConfig &
   EntitySharedConfig &
   AppearanceSharedConfig &
   ActionsSharedConfig & {
+    icon_animation?: boolean;
     show_target_humidity_control?: boolean;
+    show_mode_control?: boolean;
     collapsible_controls?: boolean;
   };
 
@@ -26,11 +29,13 @@ export const humidifierCardConfigStruct = assign(
   lovelaceCardConfigStruct,
   assign(
     entitySharedConfigStruct,
-    appearanceSharedConfigStruct,
+    computeAppearanceConfigStruct([...INFOS, "current_humidity"]),
     actionsSharedConfigStruct
   ),
   object({
+    icon_animation: optional(boolean()),
     show_target_humidity_control: optional(boolean()),
+    show_mode_control: optional(boolean()),
     collapsible_controls: optional(boolean()),
   })
 );
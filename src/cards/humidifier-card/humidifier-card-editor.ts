@@ -4,10 +4,11 @@ import { assert } from "superstruct";
 import { LovelaceCardEditor, fireEvent } from "../../ha";
 import setupCustomlocalize from "../../localize";
 import { computeActionsFormSchema } from "../../shared/config/actions-config";
-import { APPEARANCE_FORM_SCHEMA } from "../../shared/config/appearance-config";
+import { computeAppearanceFormSchema } from "../../shared/config/appearance-config";
 import { MushroomBaseElement } from "../../utils/base-element";
 import { GENERIC_LABELS } from "../../utils/form/generic-fields";
 import { HaFormSchema } from "../../utils/form/ha-form";
+import { INFOS } from "../../utils/info";
 import { loadHaComponents } from "../../utils/loader";
 import {
   HUMIDIFIER_CARD_EDITOR_NAME,
@@ -18,7 +19,7 @@ import {
   humidifierCardConfigStruct,
 } from "./humidifier-card-config";
 
-const HUMIDIFIER_FIELDS = ["show_target_humidity_control"];
+const HUMIDIFIER_FIELDS = ["show_target_humidity_control", "show_mode_control"];
 
 const SCHEMA: HaFormSchema[] = [
   {
@@ -26,13 +27,25 @@ const SCHEMA: HaFormSchema[] = [
     selector: { entity: { domain: HUMIDIFIER_ENTITY_DOMAINS } },
   },
   { name: "name", selector: { text: {} } },
-  { name: "icon", selector: { icon: {} }, context: { icon_entity: "entity" } },
-  ...APPEARANCE_FORM_SCHEMA,
+  {
+    type: "grid",
+    name: "",
+    schema: [
+      {
+        name: "icon",
+        selector: { icon: {} },
+        context: { icon_entity: "entity" },
+      },
+      { name: "icon_animation", selector: { boolean: {} } },
+    ],
+  },
+  ...computeAppearanceFormSchema([...INFOS, "current_humidity"]),
   {
     type: "grid",
     name: "",
     schema: [
       { name: "show_target_humidity_control", selector: { boolean: {} } },
+      { name: "show_mode_control", selector: { boolean: {} } },
       { name: "collapsible_controls", selector: { boolean: {} } },
     ],
   },
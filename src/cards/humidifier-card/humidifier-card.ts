@@ -1,4 +1,11 @@
-import { css, CSSResultGroup, html, nothing } from "lit";
+import {
+  css,
+  CSSResultGroup,
+  html,
+  nothing,
+  PropertyValues,
+  TemplateResult,
+} from "lit";
 import { customElement, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { styleMap } from "lit/directives/style-map.js";
@@ -33,7 +40,17 @@ import {
   HUMIDIFIER_ENTITY_DOMAINS,
 } from "./const";
 import "./controls/humidifier-humidity-control";
+import "./controls/humidifier-mode-control";
+import { isModeVisible } from "./controls/humidifier-mode-control";
 import { HumidifierCardConfig } from "./humidifier-card-config";
+import { getHumidifierActionColor, isHumidifierWorking } from "./utils";
+
+type HumidifierCardControl = "humidity_control" | "mode_control";
+
+const CONTROLS_ICONS: Record<HumidifierCardControl, string> = {
+  humidity_control: "mdi:water-percent",
+  mode_control: "mdi:tune-variant",
+};
 
 registerCustomCard({
   type: HUMIDIFIER_CARD_NAME,
@@ -66,8 +83,38 @@ export class HumidifierCard
     };
   }
 
+  @state() private _activeControl?: HumidifierCardControl;
+
+  private get _controls(): HumidifierCardControl[] {
+    if (!this._config || !this._stateObj) return [];
+
+    const stateObj = this._stateObj;
+    const controls: HumidifierCardControl[] = [];
+    if (this._config.show_target_humidity_control) {
+      controls.push("humidity_control");
+    }
+    if (this._config.show_mode_control && isModeVisible(stateObj)) {
+      controls.push("mode_control");
+    }
+    return controls;
+  }
+
   protected get hasControls(): boolean {
-    return Boolean(this._config?.show_target_humidity_control);
+    return this._controls.length > 0;
+  }
+
+  _onControlTap(ctrl, e): void {
+    e.stopPropagation();
+    this._activeControl = ctrl;
+  }
+
+  updateActiveControl() {
+    const isActiveControlSupported = this._activeControl
+      ? this._controls.includes(this._activeControl)
+      : false;
+    this._activeControl = isActiveControlSupported
+      ? this._activeControl
+      : this._controls[0];
   }
 
   setConfig(config: HumidifierCardConfig): void {
@@ -80,6 +127,14 @@ export class HumidifierCard
       },
       ...config,
     });
+    this.updateActiveControl();
+  }
+
+  protected updated(changedProperties: PropertyValues) {
+    super.updated(changedProperties);
+    if (this.hass && changedProperties.has("hass")) {
+      this.updateActiveControl();
+    }
   }
 
   private _handleAction(ev: ActionHandlerEvent) {
@@ -115,7 +170,7 @@ export class HumidifierCard
 
     const displayControls =
       (!this._config.collapsible_controls || isActive(stateObj)) &&
-      this._config.show_target_humidity_control;
+      this._controls.length > 0;
 
     return html`
       <ha-card
@@ -140,10 +195,8 @@ export class HumidifierCard
           ${displayControls
             ? html`
                 <div class="actions" ?rtl=${rtl}>
-                  <mushroom-humidifier-humidity-control
-                    .hass=${this.hass}
-                    .entity=${stateObj}
-                  ></mushroom-humidifier-humidity-control>
+                  ${this.renderActiveControl(stateObj)}
+                  ${this.renderOtherControls()}
                 </div>
               `
             : nothing}
@@ -152,6 +205,77 @@ export class HumidifierCard
     `;
   }
 
+  protected renderIcon(
+    stateObj: HumidifierEntity,
+    icon?: string
+  ): TemplateResult {
+    const iconStyle = {};
+    const action = stateObj.attributes.action;
+    const active = isActive(stateObj);
+    if (action && action !== "off") {
+      const color = getHumidifierActionColor(action);
+      iconStyle["--icon-color"] = `rgb(${color})`;
+      iconStyle["--shape-color"] = `rgba(${color}, 0.2)`;
+    }
+
+    return html`
+      <mushroom-shape-icon
+        slot="icon"
+        class=${classMap({
+          pulse:
+            isHumidifierWorking(action) &&
+            Boolean(this._config?.icon_animation),
+        })}
+        style=${styleMap(iconStyle)}
+        .disabled=${!active}
+      >
+        <ha-state-icon
+          .hass=${this.hass}
+          .stateObj=${stateObj}
+          .icon=${icon}
+        ></ha-state-icon>
+      </mushroom-shape-icon>
+    `;
+  }
+
+  private renderOtherControls(): TemplateResult | null {
+    const otherControls = this._controls.filter(
+      (control) => control != this._activeControl
+    );
+
+    return html`
+      ${otherControls.map(
+        (ctrl) => html`
+          <mushroom-button @click=${(e) => this._onControlTap(ctrl, e)}>
+            <ha-icon .icon=${CONTROLS_ICONS[ctrl]}></ha-icon>
+          </mushroom-button>
+        `
+      )}
+    `;
+  }
+
+  private renderActiveControl(entity: HumidifierEntity) {
+    switch (this._activeControl) {
+      case "humidity_control":
+        return html`
+          <mushroom-humidifier-humidity-control
+            .hass=${this.hass}
+            .entity=${entity}
+          ></mushroom-humidifier-humidity-control>
+        `;
+      case "mode_control":
+        return html`
+          <mushroom-humidifier-mode-control
+            .hass=${this.hass}
+            .entity=${entity}
+            .fill=${true}
+          ></mushroom-humidifier-mode-control>
+        `;
+      default:
+        return nothing;
+    }
+  }
+
   protected renderBadge(entity: HumidifierEntity) {
     if (isAvailable(entity)) {
       return this.renderActionBadge(entity);
@@ -164,9 +288,13 @@ export class HumidifierCard
     const action = entity.attributes.action;
     if (!action || action == "off") return nothing;
 
-    const color =
-      action === "idle" ? "var(--rgb-disabled)" : "var(--rgb-state-humidifier)";
-    const icon = action === "idle" ? "mdi:clock-outline" : "mdi:water-percent";
+    const color = getHumidifierActionColor(action);
+    const icon =
+      action === "idle"
+        ? "mdi:clock-outline"
+        : action === "drying"
+          ? "mdi:water-off"
+          : "mdi:water-percent";
 
     return html`
       <mushroom-badge-icon
@@ -191,7 +319,11 @@ export class HumidifierCard
           --icon-color: rgb(var(--rgb-state-humidifier));
           --shape-color: rgba(var(--rgb-state-humidifier), 0.2);
         }
-        mushroom-humidifier-humidity-control {
+        mushroom-shape-icon.pulse {
+          --shape-animation: 1s ease 0s infinite normal none running pulse;
+        }
+        mushroom-humidifier-humidity-control,
+        mushroom-humidifier-mode-control {
           flex: 1;
         }
       `,
@@ -0,0 +1,32 @@
+import { HumidifierAction } from "../../ha";
+
+export const HUMIDIFIER_ACTION_COLORS: Record<HumidifierAction, string> = {
+  humidifying: "var(--rgb-state-humidifier-humidifying)",
+  drying: "var(--rgb-state-humidifier-drying)",
+  idle: "var(--rgb-state-humidifier-idle)",
+  off: "var(--rgb-disabled)",
+};
+
+export const HUMIDIFIER_MODE_ICONS: Record<string, string> = {
+  normal: "mdi:water",
+  eco: "mdi:leaf",
+  away: "mdi:account-arrow-right",
+  boost: "mdi:rocket-launch",
+  comfort: "mdi:sofa",
+  home: "mdi:home",
+  sleep: "mdi:power-sleep",
+  auto: "mdi:refresh-auto",
+  baby: "mdi:baby-carriage",
+};
+
+export function getHumidifierActionColor(action: HumidifierAction): string {
+  return HUMIDIFIER_ACTION_COLORS[action] ?? "var(--rgb-state-humidifier)";
+}
+
+export function isHumidifierWorking(action?: HumidifierAction): boolean {
+  return action === "humidifying" || action === "drying";
+}
+
+export function getHumidifierModeIcon(mode: string): string {
+  return HUMIDIFIER_MODE_ICONS[mode] ?? "mdi:circle-medium";
+}
@@ -2,18 +2,18 @@ import { css, CSSResultGroup, html, LitElement, TemplateResult } from "lit";
 import { customElement, property } from "lit/decorators.js";
 import { HomeAssistant, isActive, isAvailable, LightEntity } from "../../../ha";
 import "../../../shared/slider";
-import { getBrightness } from "../utils";
+import { getAverageBrightness } from "../utils";
 
 @customElement("mushroom-light-brightness-control")
 export class LightBrighnessControl extends LitElement {
   @property({ attribute: false }) public hass!: HomeAssistant;
 
-  @property({ attribute: false }) public entity!: LightEntity;
+  @property({ attribute: false }) public entities!: LightEntity[];
 
   onChange(e: CustomEvent<{ value: number }>): void {
     const value = e.detail.value;
     this.hass.callService("light", "turn_on", {
-      entity_id: this.entity.entity_id,
+      entity_id: this.entities.map((entity) => entity.entity_id),
       brightness_pct: value,
     });
   }
@@ -30,13 +30,13 @@ export class LightBrighnessControl extends LitElement {
   }
 
   protected render(): TemplateResult {
-    const brightness = getBrightness(this.entity);
+    const brightness = getAverageBrightness(this.entities);
 
     return html`
       <mushroom-slider
         .value=${brightness}
-        .disabled=${!isAvailable(this.entity)}
-        .inactive=${!isActive(this.entity)}
+        .disabled=${!this.entities.some((entity) => isAvailable(entity))}
+        .inactive=${!this.entities.some((entity) => isActive(entity))}
         .showActive=${true}
         min=${1}
         @change=${this.onChange}
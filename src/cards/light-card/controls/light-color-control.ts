@@ -1,5 +1,4 @@
 import * as Color from "color";
-import { HassEntity } from "home-assistant-js-websocket";
 import {
   css,
   CSSResultGroup,
@@ -9,8 +8,9 @@ import {
   unsafeCSS,
 } from "lit";
 import { customElement, property } from "lit/decorators.js";
-import { HomeAssistant, isActive, isAvailable } from "../../../ha";
+import { HomeAssistant, isActive, isAvailable, LightEntity } from "../../../ha";
 import "../../../shared/slider";
+import { getAverageRGBColor } from "../utils";
 
 const GRADIENT = [
   [0, "#f00"],
@@ -26,7 +26,7 @@ const GRADIENT = [
 export class LightColorControl extends LitElement {
   @property({ attribute: false }) public hass!: HomeAssistant;
 
-  @property({ attribute: false }) public entity!: HassEntity;
+  @property({ attribute: false }) public entities!: LightEntity[];
 
   _percent = 0;
 
@@ -48,22 +48,22 @@ export class LightColorControl extends LitElement {
 
     if (rgb_color.length === 3) {
       this.hass.callService("light", "turn_on", {
-        entity_id: this.entity.entity_id,
+        entity_id: this.entities.map((entity) => entity.entity_id),
         rgb_color,
       });
     }
   }
 
   protected render(): TemplateResult {
+    const rgbColor = getAverageRGBColor(this.entities);
     const colorPercent =
-      this._percent ||
-      this._rgbToPercent(this.entity.attributes.rgb_color) * 100;
+      this._percent || (rgbColor ? this._rgbToPercent(rgbColor) * 100 : 0);
 
     return html`
       <mushroom-slider
         .value=${colorPercent}
-        .disabled=${!isAvailable(this.entity)}
-        .inactive=${!isActive(this.entity)}
+        .disabled=${!this.entities.some((entity) => isAvailable(entity))}
+        .inactive=${!this.entities.some((entity) => isActive(entity))}
         .min=${0}
         .max=${100}
         .showIndicator=${true}
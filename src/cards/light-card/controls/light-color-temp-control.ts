@@ -1,34 +1,63 @@
-import { css, CSSResultGroup, html, LitElement, TemplateResult } from "lit";
+import {
+  css,
+  CSSResultGroup,
+  html,
+  LitElement,
+  nothing,
+  TemplateResult,
+} from "lit";
 import { customElement, property } from "lit/decorators.js";
 import { HomeAssistant, isActive, isAvailable, LightEntity } from "../../../ha";
 import "../../../shared/slider";
-import { getColorTemp } from "../utils";
+import { getAverageColorTemp, supportsColorTempControl } from "../utils";
+
+// Home Assistant defaults for lights not reporting their range
+const DEFAULT_MIN_MIREDS = 153;
+const DEFAULT_MAX_MIREDS = 500;
 
 @customElement("mushroom-light-color-temp-control")
 export class LightColorTempControl extends LitElement {
   @property({ attribute: false }) public hass!: HomeAssistant;
 
-  @property({ attribute: false }) public entity!: LightEntity;
+  @property({ attribute: false }) public entities!: LightEntity[];
+
+  // Members without color temperature would distort the range of the slider
+  private get _supportedEntities(): LightEntity[] {
+    return this.entities.filter((entity) => supportsColorTempControl(entity));
+  }
 
   onChange(e: CustomEvent<{ value: number }>): void {
     const value = e.detail.value;
 
     this.hass.callService("light", "turn_on", {
-      entity_id: this.entity.entity_id,
+      entity_id: this._supportedEntities.map((entity) => entity.entity_id),
       color_temp: value,
     });
   }
 
-  protected render(): TemplateResult {
-    const colorTemp = getColorTemp(this.entity);
+  protected render(): TemplateResult | typeof nothing {
+    const entities = this._supportedEntities;
+    if (!entities.length) return nothing;
+
+    const colorTemp = getAverageColorTemp(entities);
+    const minMireds = Math.min(
+      ...entities.map(
+        (entity) => entity.attributes.min_mireds ?? DEFAULT_MIN_MIREDS
+      )
+    );
+    const maxMireds = Math.max(
+      ...entities.map(
+        (entity) => entity.attributes.max_mireds ?? DEFAULT_MAX_MIREDS
+      )
+    );
 
     return html`
       <mushroom-slider
         .value=${colorTemp}
-        .disabled=${!isAvailable(this.entity)}
-        .inactive=${!isActive(this.entity)}
-        .min=${this.entity.attributes.min_mireds ?? 0}
-        .max=${this.entity.attributes.max_mireds ?? 100}
+        .disabled=${!entities.some((entity) => isAvailable(entity))}
+        .inactive=${!entities.some((entity) => isActive(entity))}
+        .min=${minMireds}
+        .max=${maxMireds}
         .showIndicator=${true}
         @change=${this.onChange}
       />
@@ -0,0 +1,140 @@
+import { css, CSSResultGroup, html, LitElement, TemplateResult } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import {
+  HomeAssistant,
+  isAvailable,
+  LightEntity,
+  LightEntityFeature,
+  supportsFeature,
+} from "../../../ha";
+import "../../../shared/chip";
+import "../../../shared/form/mushroom-select";
+import { loadHaComponents } from "../../../utils/loader";
+import { LightEffectDisplayMode } from "../light-card-config";
+
+export const isEffectControlVisible = (entity: LightEntity) =>
+  supportsFeature(entity, LightEntityFeature.EFFECT) &&
+  Boolean(entity.attributes.effect_list?.length);
+
+@customElement("mushroom-light-effect-control")
+export class LightEffectControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: LightEntity;
+
+  @property({ attribute: false }) public entities!: LightEntity[];
+
+  @property() public mode: LightEffectDisplayMode = "dropdown";
+
+  connectedCallback() {
+    super.connectedCallback();
+    // mushroom-select relies on the mwc list items loaded by the HA editors
+    void loadHaComponents();
+  }
+
+  private _setEffect(effect: string) {
+    if (effect === this.entity.attributes.effect) return;
+    this.hass.callService("light", "turn_on", {
+      entity_id: this.entities.map((entity) => entity.entity_id),
+      effect,
+    });
+  }
+
+  private _selectChanged(ev) {
+    const value = ev.target.value;
+    if (value) {
+      this._setEffect(value);
+    }
+  }
+
+  private _onChipTap(e: MouseEvent, effect: string) {
+    e.stopPropagation();
+    this._setEffect(effect);
+  }
+
+  protected render(): TemplateResult {
+    const effects = this.entity.attributes.effect_list ?? [];
+
+    if (this.mode === "chips") {
+      return html`
+        <div class="chips">
+          ${effects.map((effect) => this.renderChip(effect))}
+        </div>
+      `;
+    }
+
+    return html`
+      <mushroom-select
+        .label=${this.hass.formatEntityAttributeName(this.entity, "effect")}
+        .value=${this.entity.attributes.effect ?? ""}
+        .disabled=${!isAvailable(this.entity)}
+        @selected=${this._selectChanged}
+        @closed=${(e) => e.stopPropagation()}
+        @click=${(e) => e.stopPropagation()}
+        fixedMenuPosition
+        naturalMenuWidth
+      >
+        ${effects.map(
+          (effect) => html`
+            <mwc-list-item .value=${effect}>
+              ${this.hass.formatEntityAttributeValue(
+                this.entity,
+                "effect",
+                effect
+              )}
+            </mwc-list-item>
+          `
+        )}
+      </mushroom-select>
+    `;
+  }
+
+  private renderChip(effect: string) {
+    const active = effect === this.entity.attributes.effect;
+
+    return html`
+      <mushroom-chip
+        class=${classMap({ active })}
+        @click=${(e: MouseEvent) => this._onChipTap(e, effect)}
+      >
+        <span>
+          ${this.hass.formatEntityAttributeValue(this.entity, "effect", effect)}
+        </span>
+      </mushroom-chip>
+    `;
+  }
+
+  static get styles(): CSSResultGroup {
+    return css`
+      :host {
+        display: block;
+      }
+      mushroom-select {
+        width: 100%;
+        --select-height: var(--control-height);
+      }
+      .chips {
+        display: flex;
+        flex-direction: row;
+        align-items: center;
+        gap: var(--chip-spacing);
+        height: var(--control-height);
+        overflow-x: auto;
+        scrollbar-width: none;
+      }
+      .chips::-webkit-scrollbar {
+        display: none;
+      }
+      mushroom-chip {
+        cursor: pointer;
+        flex: none;
+        --chip-box-shadow: none;
+      }
+      mushroom-chip.active {
+        --chip-background: rgba(var(--rgb-state-light), 0.2);
+        --text-color: rgb(var(--rgb-state-light));
+      }
+    `;
+  }
+}
@@ -0,0 +1,67 @@
+import { html, LitElement, nothing, TemplateResult } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { styleMap } from "lit/directives/style-map.js";
+import {
+  computeRTL,
+  HomeAssistant,
+  isAvailable,
+  LightEntity,
+} from "../../../ha";
+import setupCustomlocalize from "../../../localize";
+import "../../../shared/button";
+import "../../../shared/button-group";
+import { LightFavoriteColor } from "../light-card-config";
+import { getFavoriteColorLabel, getFavoriteColorRgb } from "../utils";
+
+@customElement("mushroom-light-favorites-control")
+export class LightFavoritesControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entities!: LightEntity[];
+
+  @property({ attribute: false }) public favoriteColors: LightFavoriteColor[] =
+    [];
+
+  @property() public fill: boolean = false;
+
+  private _onTap(e: MouseEvent, color: LightFavoriteColor) {
+    e.stopPropagation();
+    this.hass.callService("light", "turn_on", {
+      entity_id: this.entities.map((entity) => entity.entity_id),
+      ...color,
+    });
+  }
+
+  protected render(): TemplateResult {
+    const rtl = computeRTL(this.hass);
+
+    return html`
+      <mushroom-button-group .fill=${this.fill} ?rtl=${rtl}>
+        ${this.favoriteColors.map((color) => this.renderFavoriteButton(color))}
+      </mushroom-button-group>
+    `;
+  }
+
+  private renderFavoriteButton(color: LightFavoriteColor) {
+    const rgb = getFavoriteColorRgb(color);
+    const style = {};
+    if (rgb) {
+      style["--bg-color"] = `rgb(${rgb.join(",")})`;
+      style["--icon-color"] = "rgb(var(--rgb-white))";
+    }
+
+    return html`
+      <mushroom-button
+        style=${styleMap(style)}
+        .title=${getFavoriteColorLabel(color) ??
+        setupCustomlocalize(this.hass)("editor.card.light.favorite_colors")}
+        .disabled=${!this.entities.some((entity) => isAvailable(entity))}
+        @click=${(e: MouseEvent) => this._onTap(e, color)}
+      >
+        ${color.effect
+          ? html`<ha-icon icon="mdi:creation"></ha-icon>`
+          : nothing}
+      </mushroom-button>
+    `;
+  }
+}
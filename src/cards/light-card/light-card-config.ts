@@ -1,4 +1,13 @@
-import { assign, boolean, object, optional, string } from "superstruct";
+import {
+  array,
+  assign,
+  boolean,
+  enums,
+  number,
+  object,
+  optional,
+  string,
+} from "superstruct";
 import { LovelaceCardConfig } from "../../ha";
 import {
   ActionsSharedConfig,
@@ -6,13 +15,28 @@ import {
 } from "../../shared/config/actions-config";
 import {
   AppearanceSharedConfig,
-  appearanceSharedConfigStruct,
+  computeAppearanceConfigStruct,
 } from "../../shared/config/appearance-config";
 import {
   EntitySharedConfig,
   entitySharedConfigStruct,
 } from "../../shared/config/entity-config";
 import { lovelaceCardConfigStruct } from "../../shared/config/lovelace-card-config";
+import { INFOS } from "../../utils/info";
+
+export const LIGHT_EFFECT_DISPLAY_MODES = ["dropdown", "chips"] as const;
+
+export type LightEffectDisplayMode =
+  (typeof LIGHT_EFFECT_DISPLAY_MODES)[number];
+
+export type LightFavoriteColor = {
+  rgb_color?: [number, number, number];
+  rgbw_color?: [number, number, number, number];
+  rgbww_color?: [number, number, number, number, number];
+  hs_color?: [number, number];
+  color_temp_kelvin?: number;
+  effect?: string;
+};
 
 export type LightCardConfig = LovelaceCardConfig &
   EntitySharedConfig &
@@ -24,13 +48,19 @@ export type LightCardConfig = LovelaceCardConfig &
     show_color_control?: boolean;
     collapsible_controls?: boolean;
     use_light_color?: boolean;
+    entities?: string[];
+    show_members?: boolean;
+    show_favorites_control?: boolean;
+    favorite_colors?: LightFavoriteColor[];
+    show_effect_control?: boolean;
+    effect_display_mode?: LightEffectDisplayMode;
   };
 
 export const lightCardConfigStruct = assign(
   lovelaceCardConfigStruct,
   assign(
     entitySharedConfigStruct,
-    appearanceSharedConfigStruct,
+    computeAppearanceConfigStruct([...INFOS, "effect"]),
     actionsSharedConfigStruct
   ),
   object({
@@ -40,5 +70,22 @@ export const lightCardConfigStruct = assign(
     show_color_control: optional(boolean()),
     collapsible_controls: optional(boolean()),
     use_light_color: optional(boolean()),
+    entities: optional(array(string())),
+    show_members: optional(boolean()),
+    show_favorites_control: optional(boolean()),
+    favorite_colors: optional(
+      array(
+        object({
+          rgb_color: optional(array(number())),
+          rgbw_color: optional(array(number())),
+          rgbww_color: optional(array(number())),
+          hs_color: optional(array(number())),
+          color_temp_kelvin: optional(number()),
+          effect: optional(string()),
+        })
+      )
+    ),
+    show_effect_control: optional(boolean()),
+    effect_display_mode: optional(enums(LIGHT_EFFECT_DISPLAY_MODES)),
   })
 );
@@ -1,53 +1,89 @@
 import { html, nothing } from "lit";
 import { customElement, state } from "lit/decorators.js";
+import memoizeOne from "memoize-one";
 import { assert } from "superstruct";
-import { LovelaceCardEditor, fireEvent } from "../../ha";
+import { LocalizeFunc, LovelaceCardEditor, fireEvent } from "../../ha";
 import setupCustomlocalize from "../../localize";
 import { computeActionsFormSchema } from "../../shared/config/actions-config";
-import { APPEARANCE_FORM_SCHEMA } from "../../shared/config/appearance-config";
+import { computeAppearanceFormSchema } from "../../shared/config/appearance-config";
 import { MushroomBaseElement } from "../../utils/base-element";
 import { GENERIC_LABELS } from "../../utils/form/generic-fields";
 import { HaFormSchema } from "../../utils/form/ha-form";
+import { INFOS } from "../../utils/info";
 import { loadHaComponents } from "../../utils/loader";
 import { LIGHT_CARD_EDITOR_NAME, LIGHT_ENTITY_DOMAINS } from "./const";
-import { LightCardConfig, lightCardConfigStruct } from "./light-card-config";
+import {
+  LIGHT_EFFECT_DISPLAY_MODES,
+  LightCardConfig,
+  lightCardConfigStruct,
+} from "./light-card-config";
 
 export const LIGHT_LABELS = [
   "show_brightness_control",
   "use_light_color",
   "show_color_temp_control",
   "show_color_control",
+  "entities",
+  "show_members",
+  "show_favorites_control",
+  "favorite_colors",
+  "show_effect_control",
+  "effect_display_mode",
 ];
 
-const SCHEMA: HaFormSchema[] = [
-  { name: "entity", selector: { entity: { domain: LIGHT_ENTITY_DOMAINS } } },
-  { name: "name", selector: { text: {} } },
-  {
-    type: "grid",
-    name: "",
-    schema: [
-      {
-        name: "icon",
-        selector: { icon: {} },
-        context: { icon_entity: "entity" },
+const computeSchema = memoizeOne(
+  (customLocalize: LocalizeFunc): HaFormSchema[] => [
+    { name: "entity", selector: { entity: { domain: LIGHT_ENTITY_DOMAINS } } },
+    { name: "name", selector: { text: {} } },
+    {
+      type: "grid",
+      name: "",
+      schema: [
+        {
+          name: "icon",
+          selector: { icon: {} },
+          context: { icon_entity: "entity" },
+        },
+        { name: "icon_color", selector: { mush_color: {} } },
+      ],
+    },
+    ...computeAppearanceFormSchema([...INFOS, "effect"]),
+    {
+      type: "grid",
+      name: "",
+      schema: [
+        { name: "use_light_color", selector: { boolean: {} } },
+        { name: "show_brightness_control", selector: { boolean: {} } },
+        { name: "show_color_temp_control", selector: { boolean: {} } },
+        { name: "show_color_control", selector: { boolean: {} } },
+        { name: "show_favorites_control", selector: { boolean: {} } },
+        { name: "show_effect_control", selector: { boolean: {} } },
+        { name: "collapsible_controls", selector: { boolean: {} } },
+      ],
+    },
+    {
+      name: "effect_display_mode",
+      selector: {
+        select: {
+          options: LIGHT_EFFECT_DISPLAY_MODES.map((mode) => ({
+            value: mode,
+            label: customLocalize(
+              `editor.card.light.effect_display_mode_list.${mode}`
+            ),
+          })),
+          mode: "dropdown",
+        },
       },
-      { name: "icon_color", selector: { mush_color: {} } },
-    ],
-  },
-  ...APPEARANCE_FORM_SCHEMA,
-  {
-    type: "grid",
-    name: "",
-    schema: [
-      { name: "use_light_color", selector: { boolean: {} } },
-      { name: "show_brightness_control", selector: { boolean: {} } },
-      { name: "show_color_temp_control", selector: { boolean: {} } },
-      { name: "show_color_control", selector: { boolean: {} } },
-      { name: "collapsible_controls", selector: { boolean: {} } },
-    ],
-  },
-  ...computeActionsFormSchema(),
-];
+    },
+    {
+      name: "entities",
+      selector: { entity: { domain: LIGHT_ENTITY_DOMAINS, multiple: true } },
+    },
+    { name: "show_members", selector: { boolean: {} } },
+    { name: "favorite_colors", selector: { object: {} } },
+    ...computeActionsFormSchema(),
+  ]
+);
 
 @customElement(LIGHT_CARD_EDITOR_NAME)
 export class LightCardEditor
@@ -89,7 +125,7 @@ export class LightCardEditor
       <ha-form
         .hass=${this.hass}
         .data=${this._config}
-        .schema=${SCHEMA}
+        .schema=${computeSchema(setupCustomlocalize(this.hass))}
         .computeLabel=${this._computeLabel}
         @value-changed=${this._valueChanged}
       ></ha-form>
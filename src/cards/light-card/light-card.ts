@@ -17,13 +17,18 @@ import {
   hasAction,
   HomeAssistant,
   isActive,
+  LightColor,
   LightEntity,
   LovelaceCard,
   LovelaceCardEditor,
+  turnOnOffEntities,
 } from "../../ha";
+import { getExtendedEntityRegistryEntry } from "../../ha/data/entity_registry";
+import setupCustomlocalize from "../../localize";
 import "../../shared/badge-icon";
 import "../../shared/button";
 import "../../shared/card";
+import { Appearance } from "../../shared/config/appearance-config";
 import "../../shared/shape-avatar";
 import "../../shared/shape-icon";
 import "../../shared/state-info";
@@ -42,25 +47,45 @@ import {
 import "./controls/light-brightness-control";
 import "./controls/light-color-control";
 import "./controls/light-color-temp-control";
-import { LightCardConfig } from "./light-card-config";
+import "./controls/light-effect-control";
+import { isEffectControlVisible } from "./controls/light-effect-control";
+import "./controls/light-favorites-control";
+import { LightCardConfig, LightFavoriteColor } from "./light-card-config";
 import {
+  countActiveLights,
+  getAverageBrightness,
+  getAverageRGBColor,
+  getLightMembers,
   getRGBColor,
   isColorLight,
   isColorSuperLight,
   supportsBrightnessControl,
   supportsColorControl,
   supportsColorTempControl,
+  supportsFavoritesControl,
 } from "./utils";
 
 type LightCardControl =
   | "brightness_control"
   | "color_temp_control"
-  | "color_control";
+  | "color_control"
+  | "favorites_control"
+  | "effect_control";
 
 const CONTROLS_ICONS: Record<LightCardControl, string> = {
   brightness_control: "mdi:brightness-4",
   color_temp_control: "mdi:thermometer",
   color_control: "mdi:palette",
+  favorites_control: "mdi:star",
+  effect_control: "mdi:creation",
+};
+
+const MEMBER_APPEARANCE: Appearance = {
+  layout: "horizontal",
+  fill_container: false,
+  primary_info: "name",
+  secondary_info: "state",
+  icon_type: "icon",
 };
 
 registerCustomCard({
@@ -96,31 +121,89 @@ export class LightCard
 
   @state() private brightness?: number;
 
+  @state() private _membersExpanded = false;
+
+  private get _members(): LightEntity[] {
+    if (!this._config || !this._stateObj) return [];
+    return getLightMembers(this.hass, this._stateObj, this._config.entities);
+  }
+
+  @state() private _registryFavoriteColors?: LightColor[];
+
+  private _favoritesEntityId?: string;
+
+  private get _favoriteColors(): LightFavoriteColor[] {
+    const registryColors = this._members.some((member) =>
+      supportsFavoritesControl(member)
+    )
+      ? (this._registryFavoriteColors ?? [])
+      : [];
+    return [...(this._config?.favorite_colors ?? []), ...registryColors];
+  }
+
+  private async _fetchFavoriteColors(entityId: string) {
+    this._favoritesEntityId = entityId;
+    this._registryFavoriteColors = undefined;
+    const entry = await getExtendedEntityRegistryEntry(
+      this.hass,
+      entityId
+    ).catch(() => undefined);
+    if (entityId !== this._favoritesEntityId) return;
+    this._registryFavoriteColors = entry?.options?.light?.favorite_colors;
+    this.updateActiveControl();
+  }
+
   private get _controls(): LightCardControl[] {
     if (!this._config || !this._stateObj) return [];
 
-    const stateObj = this._stateObj;
+    const members = this._members;
     const controls: LightCardControl[] = [];
     if (
       this._config.show_brightness_control &&
-      supportsBrightnessControl(stateObj)
+      members.some((member) => supportsBrightnessControl(member))
     ) {
       controls.push("brightness_control");
     }
     if (
       this._config.show_color_temp_control &&
-      supportsColorTempControl(stateObj)
+      members.some((member) => supportsColorTempControl(member))
     ) {
       controls.push("color_temp_control");
     }
-    if (this._config.show_color_control && supportsColorControl(stateObj)) {
+    if (
+      this._config.show_color_control &&
+      members.some((member) => supportsColorControl(member))
+    ) {
       controls.push("color_control");
     }
+    if (
+      this._config.show_favorites_control &&
+      this._favoriteColors.length > 0
+    ) {
+      controls.push("favorites_control");
+    }
+    if (
+      this._config.show_effect_control &&
+      isEffectControlVisible(this._stateObj)
+    ) {
+      controls.push("effect_control");
+    }
     return controls;
   }
 
+  private get _isMembersToggleVisible(): boolean {
+    return Boolean(this._config?.show_members) && this._members.length > 1;
+  }
+
   protected get hasControls(): boolean {
-    return this._controls.length > 0;
+    return this._controls.length > 0 || this._isMembersToggleVisible;
+  }
+
+  // Each member of the expanded list takes a row
+  protected get extraRows(): number {
+    return this._isMembersToggleVisible && this._membersExpanded
+      ? this._members.length
+      : 0;
   }
 
   setConfig(config: LightCardConfig): void {
@@ -145,6 +228,12 @@ export class LightCard
   protected updated(changedProperties: PropertyValues) {
     super.updated(changedProperties);
     if (this.hass && changedProperties.has("hass")) {
+      const entityId = this._config?.show_favorites_control
+        ? this._config.entity
+        : undefined;
+      if (entityId && entityId !== this._favoritesEntityId) {
+        this._fetchFavoriteColors(entityId);
+      }
       this.updateActiveControl();
       this.updateBrightness();
     }
@@ -155,6 +244,13 @@ export class LightCard
     const stateObj = this._stateObj;
 
     if (!stateObj) return;
+    const members = this._members;
+    if (members.length > 1) {
+      const brightness = getAverageBrightness(members);
+      this.brightness =
+        brightness != null ? (brightness * 255) / 100 : undefined;
+      return;
+    }
     this.brightness = stateObj.attributes.brightness;
   }
 
@@ -174,7 +270,37 @@ export class LightCard
   }
 
   private _handleAction(ev: ActionHandlerEvent) {
-    handleAction(this, this.hass!, this._config!, ev.detail.action!);
+    const action = ev.detail.action!;
+    const actionConfig = this._config![`${action}_action`];
+    // A list of lights has no group entity to toggle, so toggle its members
+    if (actionConfig?.action === "toggle" && this._config!.entities?.length) {
+      const members = this._members;
+      turnOnOffEntities(
+        this.hass,
+        members.map((member) => member.entity_id),
+        countActiveLights(members) === 0
+      );
+      return;
+    }
+    handleAction(this, this.hass!, this._config!, action);
+  }
+
+  private _handleMemberAction(ev: ActionHandlerEvent, entityId: string) {
+    handleAction(
+      this,
+      this.hass!,
+      {
+        entity: entityId,
+        tap_action: { action: "toggle" },
+        hold_action: { action: "more-info" },
+      },
+      ev.detail.action!
+    );
+  }
+
+  private _toggleMembers(e: MouseEvent): void {
+    e.stopPropagation();
+    this._membersExpanded = !this._membersExpanded;
   }
 
   protected render() {
@@ -193,6 +319,9 @@ export class LightCard
     const appearance = computeAppearance(this._config);
     const picture = computeEntityPicture(stateObj, appearance.icon_type);
 
+    const members = this._members;
+    const activeCount = countActiveLights(members);
+
     let stateDisplay = this.hass.formatEntityState(stateObj);
     if (this.brightness != null) {
       const brightness = this.hass.formatEntityAttributeValue(
@@ -202,12 +331,23 @@ export class LightCard
       );
       stateDisplay = brightness;
     }
+    if (members.length > 1) {
+      const customLocalize = setupCustomlocalize(this.hass);
+      const membersDisplay = customLocalize("card.light.members_on")
+        .replace("{active}", String(activeCount))
+        .replace("{total}", String(members.length));
+      stateDisplay =
+        activeCount && this.brightness != null
+          ? `${membersDisplay} ⸱ ${stateDisplay}`
+          : membersDisplay;
+    }
 
     const rtl = computeRTL(this.hass);
 
     const isControlVisible =
-      (!this._config.collapsible_controls || isActive(stateObj)) &&
+      (!this._config.collapsible_controls || activeCount > 0) &&
       this._controls.length;
+    const isMembersToggleVisible = this._isMembersToggleVisible;
 
     return html`
       <ha-card
@@ -229,22 +369,41 @@ export class LightCard
             ${this.renderBadge(stateObj)}
             ${this.renderStateInfo(stateObj, appearance, name, stateDisplay)};
           </mushroom-state-item>
-          ${isControlVisible
+          ${isControlVisible || isMembersToggleVisible
             ? html`
                 <div class="actions" ?rtl=${rtl}>
-                  ${this.renderActiveControl(stateObj)}
-                  ${this.renderOtherControls()}
+                  ${isControlVisible
+                    ? html`
+                        ${this.renderActiveControl(members)}
+                        ${this.renderOtherControls()}
+                      `
+                    : nothing}
+                  ${isMembersToggleVisible
+                    ? html`
+                        <mushroom-button @click=${this._toggleMembers}>
+                          <ha-icon
+                            .icon=${this._membersExpanded
+                              ? "mdi:chevron-up"
+                              : "mdi:chevron-down"}
+                          ></ha-icon>
+                        </mushroom-button>
+                      `
+                    : nothing}
                 </div>
               `
             : nothing}
         </mushroom-card>
+        ${isMembersToggleVisible && this._membersExpanded
+          ? this.renderMembers(members)
+          : nothing}
       </ha-card>
     `;
   }
 
   protected renderIcon(stateObj: LightEntity, icon?: string): TemplateResult {
-    const lightRgbColor = getRGBColor(stateObj);
-    const active = isActive(stateObj);
+    const members = this._members;
+    const lightRgbColor = getAverageRGBColor(members);
+    const active = isActive(stateObj) || countActiveLights(members) > 0;
     const iconStyle = {};
     const iconColor = this._config?.icon_color;
     if (lightRgbColor && this._config?.use_light_color) {
@@ -295,10 +454,53 @@ export class LightCard
     `;
   }
 
-  private renderActiveControl(entity: LightEntity) {
+  private renderMembers(members: LightEntity[]): TemplateResult {
+    const rtl = computeRTL(this.hass);
+
+    return html`
+      <div class="members">
+        ${members.map((member) => {
+          const lightRgbColor = getRGBColor(member);
+          const iconStyle = {};
+          if (lightRgbColor && this._config?.use_light_color) {
+            const color = lightRgbColor.join(",");
+            iconStyle["--icon-color"] = `rgb(${color})`;
+            iconStyle["--shape-color"] = `rgba(${color}, 0.25)`;
+          }
+          return html`
+            <mushroom-state-item
+              ?rtl=${rtl}
+              .appearance=${MEMBER_APPEARANCE}
+              @action=${(ev: ActionHandlerEvent) =>
+                this._handleMemberAction(ev, member.entity_id)}
+              .actionHandler=${actionHandler({ hasHold: true })}
+            >
+              <mushroom-shape-icon
+                slot="icon"
+                .disabled=${!isActive(member)}
+                style=${styleMap(iconStyle)}
+              >
+                <ha-state-icon
+                  .hass=${this.hass}
+                  .stateObj=${member}
+                ></ha-state-icon>
+              </mushroom-shape-icon>
+              <mushroom-state-info
+                slot="info"
+                .primary=${member.attributes.friendly_name ?? member.entity_id}
+                .secondary=${this.hass.formatEntityState(member)}
+              ></mushroom-state-info>
+            </mushroom-state-item>
+          `;
+        })}
+      </div>
+    `;
+  }
+
+  private renderActiveControl(entities: LightEntity[]) {
     switch (this._activeControl) {
       case "brightness_control":
-        const lightRgbColor = getRGBColor(entity);
+        const lightRgbColor = getAverageRGBColor(entities);
         const sliderStyle = {};
         const iconColor = this._config?.icon_color;
         if (lightRgbColor && this._config?.use_light_color) {
@@ -322,7 +524,7 @@ export class LightCard
         return html`
           <mushroom-light-brightness-control
             .hass=${this.hass}
-            .entity=${entity}
+            .entities=${entities}
             style=${styleMap(sliderStyle)}
             @current-change=${this.onCurrentBrightnessChange}
           />
@@ -331,12 +533,32 @@ export class LightCard
         return html`
           <mushroom-light-color-temp-control
             .hass=${this.hass}
-            .entity=${entity}
+            .entities=${entities}
           />
         `;
       case "color_control":
         return html`
-          <mushroom-light-color-control .hass=${this.hass} .entity=${entity} />
+          <mushroom-light-color-control
+            .hass=${this.hass}
+            .entities=${entities}
+          />
+        `;
+      case "favorites_control":
+        return html`
+          <mushroom-light-favorites-control
+            .hass=${this.hass}
+            .entities=${entities}
+            .favoriteColors=${this._favoriteColors}
+          />
+        `;
+      case "effect_control":
+        return html`
+          <mushroom-light-effect-control
+            .hass=${this.hass}
+            .entity=${this._stateObj}
+            .entities=${entities}
+            .mode=${this._config?.effect_display_mode ?? "dropdown"}
+          />
         `;
       default:
         return nothing;
@@ -357,9 +579,20 @@ export class LightCard
         }
         mushroom-light-brightness-control,
         mushroom-light-color-temp-control,
-        mushroom-light-color-control {
+        mushroom-light-color-control,
+        mushroom-light-favorites-control,
+        mushroom-light-effect-control {
           flex: 1;
         }
+        .members {
+          display: flex;
+          flex-direction: column;
+          padding: 0 var(--control-spacing) var(--control-spacing);
+        }
+        .members mushroom-state-item {
+          cursor: pointer;
+          --spacing: calc(var(--control-spacing) / 2);
+        }
       `,
     ];
   }
@@ -1,10 +1,19 @@
 import * as Color from "color";
 import {
+  HomeAssistant,
+  isActive,
   LightColorMode,
   LightEntity,
   lightSupportsColor,
   lightSupportsBrightness,
+  lightSupportsFavoriteColors,
 } from "../../ha";
+import {
+  rgbw2rgb,
+  rgbww2rgb,
+  temperature2rgb,
+} from "../../ha/common/color/convert-light-color";
+import { LightFavoriteColor } from "./light-card-config";
 
 export function getBrightness(entity: LightEntity): number | undefined {
   return entity.attributes.brightness != null
@@ -24,6 +33,70 @@ export function getRGBColor(entity: LightEntity): number[] | undefined {
     : undefined;
 }
 
+function average(values: number[]): number | undefined {
+  if (!values.length) return undefined;
+  return values.reduce((acc, value) => acc + value, 0) / values.length;
+}
+
+/**
+ * Members of a light card: the card entity plus the configured `entities`, or
+ * the members of a light group when no list is configured.
+ */
+export function getLightMembers(
+  hass: HomeAssistant,
+  entity: LightEntity,
+  entityIds?: string[]
+): LightEntity[] {
+  const ids = entityIds?.length
+    ? [entity.entity_id, ...entityIds]
+    : (entity.attributes.entity_id ?? []);
+  const members = ids
+    .filter((id, index) => ids.indexOf(id) === index)
+    .map((id) => hass.states[id] as LightEntity | undefined)
+    .filter((stateObj): stateObj is LightEntity => stateObj !== undefined);
+  return members.length ? members : [entity];
+}
+
+export function getAverageBrightness(
+  entities: LightEntity[]
+): number | undefined {
+  const brightness = average(
+    entities
+      .filter((entity) => entity.attributes.brightness != null)
+      .map((entity) => entity.attributes.brightness!)
+  );
+  return brightness != null
+    ? Math.max(Math.round((brightness * 100) / 255), 1)
+    : undefined;
+}
+
+export function getAverageColorTemp(
+  entities: LightEntity[]
+): number | undefined {
+  const colorTemp = average(
+    entities
+      .map((entity) => getColorTemp(entity))
+      .filter((value): value is number => value != null)
+  );
+  return colorTemp != null ? Math.round(colorTemp) : undefined;
+}
+
+export function getAverageRGBColor(
+  entities: LightEntity[]
+): number[] | undefined {
+  const colors = entities
+    .map((entity) => getRGBColor(entity))
+    .filter((color): color is number[] => color != null);
+  if (!colors.length) return undefined;
+  return [0, 1, 2].map((channel) =>
+    Math.round(average(colors.map((color) => color[channel]))!)
+  );
+}
+
+export function countActiveLights(entities: LightEntity[]): number {
+  return entities.filter((entity) => isActive(entity)).length;
+}
+
 export function isColorLight(rgb: number[]): boolean {
   const color = Color.rgb(rgb);
   return color.l() > 96;
@@ -48,3 +121,41 @@ export function supportsColorControl(entity: LightEntity): boolean {
 export function supportsBrightnessControl(entity: LightEntity): boolean {
   return lightSupportsBrightness(entity);
 }
+
+export function supportsFavoritesControl(entity: LightEntity): boolean {
+  return lightSupportsFavoriteColors(entity);
+}
+
+export function getFavoriteColorRgb(
+  color: LightFavoriteColor
+): number[] | undefined {
+  if (color.rgb_color) {
+    return color.rgb_color;
+  }
+  if (color.rgbw_color) {
+    return rgbw2rgb(color.rgbw_color);
+  }
+  if (color.rgbww_color) {
+    return rgbww2rgb(color.rgbww_color);
+  }
+  if (color.hs_color) {
+    return Color.hsv(color.hs_color[0], color.hs_color[1], 100).rgb().array();
+  }
+  if (color.color_temp_kelvin) {
+    return temperature2rgb(color.color_temp_kelvin);
+  }
+  return undefined;
+}
+
+export function getFavoriteColorLabel(
+  color: LightFavoriteColor
+): string | undefined {
+  if (color.effect) {
+    return color.effect;
+  }
+  if (color.color_temp_kelvin) {
+    return `${color.color_temp_kelvin} K`;
+  }
+  const rgb = getFavoriteColorRgb(color);
+  return rgb ? Color.rgb(rgb).hex() : undefined;
+}
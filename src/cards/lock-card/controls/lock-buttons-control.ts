@@ -1,20 +1,32 @@
-import { html, LitElement, TemplateResult } from "lit";
-import { customElement, property } from "lit/decorators.js";
+import { css, CSSResultGroup, html, LitElement, TemplateResult } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
 import {
+  callProtectedLockService,
   computeRTL,
   HomeAssistant,
   isAvailable,
+  LockCommand,
   LockEntity,
   LOCK_SUPPORT_OPEN,
   supportsFeature,
 } from "../../../ha";
+import { CODE_DIALOG_CLOSED } from "../../../ha/data/alarm_control_panel";
 import setupCustomlocalize from "../../../localize";
-import { isActionPending, isLocked, isUnlocked } from "../utils";
+import { LockConfirmAction } from "../lock-card-config";
+import {
+  isActionPending,
+  isJammed,
+  isLocked,
+  isOpen,
+  isUnlocked,
+} from "../utils";
+
+const CONFIRM_TIMEOUT = 5000;
 
 interface LockButton {
   icon: string;
   title?: string;
-  serviceName?: string;
+  serviceName?: LockCommand;
   isVisible: (entity: LockEntity) => boolean;
   isDisabled: (entity: LockEntity) => boolean;
 }
@@ -24,14 +36,15 @@ export const LOCK_BUTTONS: LockButton[] = [
     icon: "mdi:lock",
     title: "lock",
     serviceName: "lock",
-    isVisible: (entity) => isUnlocked(entity),
+    isVisible: (entity) =>
+      isUnlocked(entity) || isOpen(entity) || isJammed(entity),
     isDisabled: () => false,
   },
   {
     icon: "mdi:lock-open",
     title: "unlock",
     serviceName: "unlock",
-    isVisible: (entity) => isLocked(entity),
+    isVisible: (entity) => isLocked(entity) || isJammed(entity),
     isDisabled: () => false,
   },
   {
@@ -57,18 +70,92 @@ export class LockButtonsControl extends LitElement {
 
   @property({ type: Boolean }) public fill: boolean = false;
 
+  @property({ attribute: false }) public confirmActions: LockConfirmAction[] =
+    [];
+
+  @state() private _confirmEntry?: LockButton;
+
+  private _confirmTimeout?: number;
+
+  public disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this._resetConfirm();
+  }
+
+  private _resetConfirm(): void {
+    clearTimeout(this._confirmTimeout);
+    this._confirmTimeout = undefined;
+    this._confirmEntry = undefined;
+  }
+
   private callService(e: CustomEvent) {
     e.stopPropagation();
     const entry = (e.target! as any).entry as LockButton;
-    this.hass.callService("lock", entry.serviceName!, {
-      entity_id: this.entity!.entity_id,
-    });
+    if (this.confirmActions.includes(entry.serviceName as LockConfirmAction)) {
+      this._confirmEntry = entry;
+      this._confirmTimeout = window.setTimeout(
+        () => this._resetConfirm(),
+        CONFIRM_TIMEOUT
+      );
+      return;
+    }
+    this._callLockService(entry);
+  }
+
+  private _onConfirmTap(e: CustomEvent) {
+    e.stopPropagation();
+    const entry = this._confirmEntry!;
+    this._resetConfirm();
+    this._callLockService(entry);
+  }
+
+  private _onCancelTap(e: CustomEvent) {
+    e.stopPropagation();
+    this._resetConfirm();
+  }
+
+  private async _callLockService(entry: LockButton) {
+    try {
+      await callProtectedLockService(
+        this,
+        this.hass,
+        this.entity,
+        entry.serviceName!
+      );
+    } catch (err) {
+      // Closing the code dialog is not an error
+      if ((err as Error)?.message === CODE_DIALOG_CLOSED) return;
+      throw err;
+    }
   }
 
   protected render(): TemplateResult {
     const rtl = computeRTL(this.hass);
     const customLocalize = setupCustomlocalize(this.hass!);
 
+    if (this._confirmEntry) {
+      const title = customLocalize(
+        `editor.card.lock.${this._confirmEntry.title}`
+      );
+      return html`
+        <mushroom-button-group .fill=${this.fill} ?rtl=${rtl}>
+          <mushroom-button
+            class="confirm"
+            .title=${title}
+            @click=${this._onConfirmTap}
+          >
+            <ha-icon icon="mdi:check"></ha-icon>
+          </mushroom-button>
+          <mushroom-button
+            .title=${this.hass.localize("ui.common.cancel")}
+            @click=${this._onCancelTap}
+          >
+            <ha-icon icon="mdi:close"></ha-icon>
+          </mushroom-button>
+        </mushroom-button-group>
+      `;
+    }
+
     return html`
       <mushroom-button-group .fill=${this.fill} ?rtl=${rtl}
         >${LOCK_BUTTONS.filter((item) => item.isVisible(this.entity)).map(
@@ -89,4 +176,13 @@ export class LockButtonsControl extends LitElement {
       >
     `;
   }
+
+  static get styles(): CSSResultGroup {
+    return css`
+      mushroom-button.confirm {
+        --icon-color: rgb(var(--rgb-state-lock-unlocked));
+        --bg-color: rgba(var(--rgb-state-lock-unlocked), 0.2);
+      }
+    `;
+  }
 }
@@ -1,4 +1,4 @@
-import { assign, boolean, object, optional } from "superstruct";
+import { array, assign, enums, object, optional } from "superstruct";
 import { LovelaceCardConfig } from "../../ha";
 import {
   ActionsSharedConfig,
@@ -14,10 +14,16 @@ import {
 } from "../../shared/config/entity-config";
 import { lovelaceCardConfigStruct } from "../../shared/config/lovelace-card-config";
 
+export const LOCK_CONFIRM_ACTIONS = ["unlock", "open"] as const;
+
+export type LockConfirmAction = (typeof LOCK_CONFIRM_ACTIONS)[number];
+
 export type LockCardConfig = LovelaceCardConfig &
   EntitySharedConfig &
   AppearanceSharedConfig &
-  ActionsSharedConfig;
+  ActionsSharedConfig & {
+    confirm_actions?: LockConfirmAction[];
+  };
 
 export const lockCardConfigStruct = assign(
   lovelaceCardConfigStruct,
@@ -25,5 +31,8 @@ export const lockCardConfigStruct = assign(
     entitySharedConfigStruct,
     appearanceSharedConfigStruct,
     actionsSharedConfigStruct
-  )
+  ),
+  object({
+    confirm_actions: optional(array(enums(LOCK_CONFIRM_ACTIONS))),
+  })
 );
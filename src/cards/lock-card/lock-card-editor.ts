@@ -1,7 +1,8 @@
 import { html, nothing } from "lit";
 import { customElement, state } from "lit/decorators.js";
+import memoizeOne from "memoize-one";
 import { assert } from "superstruct";
-import { LovelaceCardEditor, fireEvent } from "../../ha";
+import { LocalizeFunc, LovelaceCardEditor, fireEvent } from "../../ha";
 import setupCustomlocalize from "../../localize";
 import { computeActionsFormSchema } from "../../shared/config/actions-config";
 import { APPEARANCE_FORM_SCHEMA } from "../../shared/config/appearance-config";
@@ -10,15 +11,40 @@ import { GENERIC_LABELS } from "../../utils/form/generic-fields";
 import { HaFormSchema } from "../../utils/form/ha-form";
 import { loadHaComponents } from "../../utils/loader";
 import { LOCK_CARD_EDITOR_NAME, LOCK_ENTITY_DOMAINS } from "./const";
-import { LockCardConfig, lockCardConfigStruct } from "./lock-card-config";
+import {
+  LOCK_CONFIRM_ACTIONS,
+  LockCardConfig,
+  lockCardConfigStruct,
+} from "./lock-card-config";
 
-const SCHEMA: HaFormSchema[] = [
-  { name: "entity", selector: { entity: { domain: LOCK_ENTITY_DOMAINS } } },
-  { name: "name", selector: { text: {} } },
-  { name: "icon", selector: { icon: {} }, context: { icon_entity: "entity" } },
-  ...APPEARANCE_FORM_SCHEMA,
-  ...computeActionsFormSchema(),
-];
+const LOCK_LABELS = ["confirm_actions"];
+
+const computeSchema = memoizeOne(
+  (customLocalize: LocalizeFunc): HaFormSchema[] => [
+    { name: "entity", selector: { entity: { domain: LOCK_ENTITY_DOMAINS } } },
+    { name: "name", selector: { text: {} } },
+    {
+      name: "icon",
+      selector: { icon: {} },
+      context: { icon_entity: "entity" },
+    },
+    ...APPEARANCE_FORM_SCHEMA,
+    {
+      name: "confirm_actions",
+      selector: {
+        select: {
+          options: LOCK_CONFIRM_ACTIONS.map((action) => ({
+            value: action,
+            label: customLocalize(`editor.card.lock.${action}`),
+          })),
+          mode: "list",
+          multiple: true,
+        },
+      },
+    },
+    ...computeActionsFormSchema(),
+  ]
+);
 
 @customElement(LOCK_CARD_EDITOR_NAME)
 export class LockCardEditor
@@ -43,6 +69,9 @@ export class LockCardEditor
     if (GENERIC_LABELS.includes(schema.name)) {
       return customLocalize(`editor.card.generic.${schema.name}`);
     }
+    if (LOCK_LABELS.includes(schema.name)) {
+      return customLocalize(`editor.card.lock.${schema.name}`);
+    }
     return this.hass!.localize(
       `ui.panel.lovelace.editor.card.generic.${schema.name}`
     );
@@ -53,11 +82,13 @@ export class LockCardEditor
       return nothing;
     }
 
+    const schema = computeSchema(setupCustomlocalize(this.hass!));
+
     return html`
       <ha-form
         .hass=${this.hass}
         .data=${this._config}
-        .schema=${SCHEMA}
+        .schema=${schema}
         .computeLabel=${this._computeLabel}
         @value-changed=${this._valueChanged}
       ></ha-form>
@@ -32,7 +32,7 @@ import {
 } from "./const";
 import "./controls/lock-buttons-control";
 import { LockCardConfig } from "./lock-card-config";
-import { isActionPending, isLocked, isUnlocked } from "./utils";
+import { getStateColor, isJammed } from "./utils";
 
 registerCustomCard({
   type: LOCK_CARD_NAME,
@@ -113,6 +113,7 @@ export class LockCard
             <mushroom-lock-buttons-control
               .hass=${this.hass}
               .entity=${stateObj}
+              .confirmActions=${this._config.confirm_actions ?? []}
               .fill=${appearance.layout !== "horizontal"}
             >
             </mushroom-lock-buttons-control>
@@ -125,26 +126,17 @@ export class LockCard
   renderIcon(stateObj: LockEntity, icon?: string): TemplateResult {
     const available = isAvailable(stateObj);
 
+    const color = getStateColor(stateObj);
     const iconStyle = {
-      "--icon-color": "rgb(var(--rgb-state-lock))",
-      "--shape-color": "rgba(var(--rgb-state-lock), 0.2)",
+      "--icon-color": `rgb(${color})`,
+      "--shape-color": `rgba(${color}, 0.2)`,
     };
 
-    if (isLocked(stateObj)) {
-      iconStyle["--icon-color"] = `rgb(var(--rgb-state-lock-locked))`;
-      iconStyle["--shape-color"] = `rgba(var(--rgb-state-lock-locked), 0.2)`;
-    } else if (isUnlocked(stateObj)) {
-      iconStyle["--icon-color"] = `rgb(var(--rgb-state-lock-unlocked))`;
-      iconStyle["--shape-color"] = `rgba(var(--rgb-state-lock-unlocked), 0.2)`;
-    } else if (isActionPending(stateObj)) {
-      iconStyle["--icon-color"] = `rgb(var(--rgb-state-lock-pending))`;
-      iconStyle["--shape-color"] = `rgba(var(--rgb-state-lock-pending), 0.2)`;
-    }
-
     return html`
       <mushroom-shape-icon
         slot="icon"
         .disabled=${!available}
+        class=${classMap({ pulse: isJammed(stateObj) })}
         style=${styleMap(iconStyle)}
       >
         <ha-state-icon
@@ -167,6 +159,9 @@ export class LockCard
         mushroom-lock-buttons-control {
           flex: 1;
         }
+        mushroom-shape-icon.pulse {
+          --shape-animation: 1s ease 0s infinite normal none running pulse;
+        }
       `,
     ];
   }
@@ -1,7 +1,10 @@
 import {
   LockEntity,
+  LOCK_STATE_JAMMED,
   LOCK_STATE_LOCKED,
   LOCK_STATE_LOCKING,
+  LOCK_STATE_OPEN,
+  LOCK_STATE_OPENING,
   LOCK_STATE_UNLOCKED,
   LOCK_STATE_UNLOCKING,
 } from "../../ha";
@@ -14,12 +17,35 @@ export function isLocked(entity: LockEntity) {
   return entity.state === LOCK_STATE_LOCKED;
 }
 
+export function isJammed(entity: LockEntity) {
+  return entity.state === LOCK_STATE_JAMMED;
+}
+
+export function isOpen(entity: LockEntity) {
+  return entity.state === LOCK_STATE_OPEN;
+}
+
+export function isOpening(entity: LockEntity) {
+  return entity.state === LOCK_STATE_OPENING;
+}
+
 export function isActionPending(entity: LockEntity) {
   switch (entity.state) {
     case LOCK_STATE_LOCKING:
     case LOCK_STATE_UNLOCKING:
+    case LOCK_STATE_OPENING:
       return true;
     default:
       return false;
   }
 }
+
+export function getStateColor(entity: LockEntity): string {
+  if (isLocked(entity)) return "var(--rgb-state-lock-locked)";
+  if (isUnlocked(entity)) return "var(--rgb-state-lock-unlocked)";
+  if (isOpen(entity)) return "var(--rgb-state-lock-open)";
+  if (isJammed(entity)) return "var(--rgb-state-lock-jammed)";
+  if (isOpening(entity)) return "var(--rgb-state-lock-opening)";
+  if (isActionPending(entity)) return "var(--rgb-state-lock-pending)";
+  return "var(--rgb-state-lock)";
+}
@@ -0,0 +1,104 @@
+import { css, CSSResultGroup, html, LitElement, nothing } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import {
+  HomeAssistant,
+  isAvailable,
+  MEDIA_PLAYER_SUPPORT_GROUPING,
+  MediaPlayerEntity,
+  supportsFeature,
+} from "../../../ha";
+import "../../../shared/chip";
+
+export const isGroupControlVisible = (
+  entity: MediaPlayerEntity,
+  candidates: MediaPlayerEntity[]
+) =>
+  supportsFeature(entity, MEDIA_PLAYER_SUPPORT_GROUPING) &&
+  candidates.length > 0;
+
+@customElement("mushroom-media-player-group-control")
+export class MediaPlayerGroupControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: MediaPlayerEntity;
+
+  @property({ attribute: false }) public candidates: MediaPlayerEntity[] = [];
+
+  private _onTap(e: MouseEvent, member: MediaPlayerEntity): void {
+    e.stopPropagation();
+    const members = this.entity.attributes.group_members ?? [];
+    if (members.includes(member.entity_id)) {
+      this.hass.callService("media_player", "unjoin", {
+        entity_id: member.entity_id,
+      });
+      return;
+    }
+    this.hass.callService("media_player", "join", {
+      entity_id: this.entity.entity_id,
+      group_members: [member.entity_id],
+    });
+  }
+
+  protected render() {
+    if (!this.entity) return nothing;
+
+    const members = this.entity.attributes.group_members ?? [];
+
+    return html`
+      <div class="chips">
+        ${this.candidates.map((candidate) => {
+          const active = members.includes(candidate.entity_id);
+          return html`
+            <mushroom-chip
+              class=${classMap({
+                active,
+                disabled: !isAvailable(candidate),
+              })}
+              @click=${(e: MouseEvent) => this._onTap(e, candidate)}
+            >
+              <ha-state-icon
+                .hass=${this.hass}
+                .stateObj=${candidate}
+              ></ha-state-icon>
+              <span>
+                ${candidate.attributes.friendly_name ?? candidate.entity_id}
+              </span>
+            </mushroom-chip>
+          `;
+        })}
+      </div>
+    `;
+  }
+
+  static get styles(): CSSResultGroup {
+    return css`
+      .chips {
+        display: flex;
+        flex-direction: row;
+        align-items: center;
+        gap: var(--chip-spacing);
+        height: var(--control-height);
+        overflow-x: auto;
+        scrollbar-width: none;
+      }
+      .chips::-webkit-scrollbar {
+        display: none;
+      }
+      mushroom-chip {
+        cursor: pointer;
+        flex: none;
+        --chip-box-shadow: none;
+      }
+      mushroom-chip.active {
+        --chip-background: rgba(var(--rgb-state-media-player), 0.2);
+        --icon-color: rgb(var(--rgb-state-media-player));
+        --text-color: rgb(var(--rgb-state-media-player));
+      }
+      mushroom-chip.disabled {
+        pointer-events: none;
+        opacity: 0.5;
+      }
+    `;
+  }
+}
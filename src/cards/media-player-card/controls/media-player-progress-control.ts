@@ -0,0 +1,146 @@
+import {
+  css,
+  CSSResultGroup,
+  html,
+  LitElement,
+  nothing,
+  PropertyValues,
+} from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import {
+  getCurrentProgress,
+  HomeAssistant,
+  isAvailable,
+  MEDIA_PLAYER_SUPPORT_SEEK,
+  MediaPlayerEntity,
+  supportsFeature,
+} from "../../../ha";
+import "../../../shared/slider";
+import { formatMediaTime } from "../utils";
+
+export const isProgressVisible = (entity: MediaPlayerEntity) =>
+  ["playing", "paused"].includes(entity.state) &&
+  Boolean(entity.attributes.media_duration) &&
+  entity.attributes.media_position != null;
+
+@customElement("mushroom-media-player-progress-control")
+export class MediaPlayerProgressControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: MediaPlayerEntity;
+
+  @state() private _progress = 0;
+
+  @state() private _seekPosition?: number;
+
+  private _interval?: number;
+
+  connectedCallback() {
+    super.connectedCallback();
+    this._updateTimer();
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this._clearTimer();
+  }
+
+  protected willUpdate(changedProps: PropertyValues): void {
+    super.willUpdate(changedProps);
+    if (changedProps.has("entity")) {
+      this._updateProgress();
+      this._updateTimer();
+    }
+  }
+
+  private _updateProgress() {
+    if (!this.entity || !isProgressVisible(this.entity)) return;
+    this._progress = getCurrentProgress(this.entity);
+  }
+
+  // Position is only pushed on state changes, so tick locally while playing
+  private _updateTimer() {
+    if (this.isConnected && this.entity?.state === "playing") {
+      if (!this._interval) {
+        this._interval = window.setInterval(() => this._updateProgress(), 1000);
+      }
+    } else {
+      this._clearTimer();
+    }
+  }
+
+  private _clearTimer() {
+    if (this._interval) {
+      clearInterval(this._interval);
+      this._interval = undefined;
+    }
+  }
+
+  private onChange(e: CustomEvent<{ value: number }>): void {
+    e.stopPropagation();
+    const value = e.detail.value;
+    this._progress = value;
+    this.hass.callService("media_player", "media_seek", {
+      entity_id: this.entity.entity_id,
+      seek_position: value,
+    });
+  }
+
+  private onCurrentChange(e: CustomEvent<{ value?: number }>): void {
+    e.stopPropagation();
+    this._seekPosition = e.detail.value;
+  }
+
+  protected render() {
+    if (!this.entity || !isProgressVisible(this.entity)) return nothing;
+
+    const duration = this.entity.attributes.media_duration!;
+    const progress = Math.min(this._progress, duration);
+    const position = this._seekPosition ?? progress;
+    const canSeek = supportsFeature(this.entity, MEDIA_PLAYER_SUPPORT_SEEK);
+
+    return html`
+      <div class="container">
+        <span class="time">${formatMediaTime(position)}</span>
+        <mushroom-slider
+          class=${classMap({ readonly: !canSeek })}
+          .value=${progress}
+          .disabled=${!isAvailable(this.entity)}
+          .showActive=${true}
+          .min=${0}
+          .max=${duration}
+          @change=${this.onChange}
+          @current-change=${this.onCurrentChange}
+        ></mushroom-slider>
+        <span class="time">-${formatMediaTime(duration - position)}</span>
+      </div>
+    `;
+  }
+
+  static get styles(): CSSResultGroup {
+    return css`
+      .container {
+        display: flex;
+        flex-direction: row;
+        align-items: center;
+        gap: var(--spacing);
+      }
+      .time {
+        font-size: var(--card-secondary-font-size);
+        font-weight: var(--card-secondary-font-weight);
+        color: var(--secondary-text-color);
+        font-variant-numeric: tabular-nums;
+      }
+      mushroom-slider {
+        flex: 1;
+        --control-height: var(--media-progress-height);
+        --main-color: rgb(var(--rgb-state-media-player));
+        --bg-color: rgba(var(--rgb-state-media-player), 0.2);
+      }
+      mushroom-slider.readonly {
+        pointer-events: none;
+      }
+    `;
+  }
+}
@@ -0,0 +1,144 @@
+import { css, CSSResultGroup, html, LitElement, nothing } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import {
+  HomeAssistant,
+  isAvailable,
+  isOff,
+  MEDIA_PLAYER_SUPPORT_SELECT_SOUND_MODE,
+  MEDIA_PLAYER_SUPPORT_SELECT_SOURCE,
+  MediaPlayerEntity,
+  supportsFeature,
+} from "../../../ha";
+import "../../../shared/form/mushroom-select";
+import { loadHaComponents } from "../../../utils/loader";
+
+export const isSourceVisible = (entity: MediaPlayerEntity) =>
+  supportsFeature(entity, MEDIA_PLAYER_SUPPORT_SELECT_SOURCE) &&
+  Boolean(entity.attributes.source_list?.length);
+
+export const isSoundModeVisible = (entity: MediaPlayerEntity) =>
+  supportsFeature(entity, MEDIA_PLAYER_SUPPORT_SELECT_SOUND_MODE) &&
+  Boolean(entity.attributes.sound_mode_list?.length);
+
+export const isSourceControlVisible = (
+  entity: MediaPlayerEntity,
+  showSource?: boolean,
+  showSoundMode?: boolean
+) =>
+  (Boolean(showSource) && isSourceVisible(entity)) ||
+  (Boolean(showSoundMode) && isSoundModeVisible(entity));
+
+@customElement("mushroom-media-player-source-control")
+export class MediaPlayerSourceControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: MediaPlayerEntity;
+
+  @property({ type: Boolean }) public showSource: boolean = false;
+
+  @property({ type: Boolean }) public showSoundMode: boolean = false;
+
+  connectedCallback() {
+    super.connectedCallback();
+    // mushroom-select relies on the mwc list items loaded by the HA editors
+    void loadHaComponents();
+  }
+
+  private _sourceChanged(ev) {
+    const source = ev.target.value;
+    if (!source || source === this.entity.attributes.source) return;
+    this.hass.callService("media_player", "select_source", {
+      entity_id: this.entity.entity_id,
+      source,
+    });
+  }
+
+  private _soundModeChanged(ev) {
+    const soundMode = ev.target.value;
+    if (!soundMode || soundMode === this.entity.attributes.sound_mode) return;
+    this.hass.callService("media_player", "select_sound_mode", {
+      entity_id: this.entity.entity_id,
+      sound_mode: soundMode,
+    });
+  }
+
+  protected render() {
+    if (!this.entity) return nothing;
+
+    const disabled = !isAvailable(this.entity) || isOff(this.entity);
+
+    return html`
+      ${this.showSource && isSourceVisible(this.entity)
+        ? this.renderSelect(
+            "source",
+            "mdi:import",
+            this.entity.attributes.source_list!,
+            this.entity.attributes.source,
+            disabled,
+            this._sourceChanged
+          )
+        : nothing}
+      ${this.showSoundMode && isSoundModeVisible(this.entity)
+        ? this.renderSelect(
+            "sound_mode",
+            "mdi:surround-sound",
+            this.entity.attributes.sound_mode_list!,
+            this.entity.attributes.sound_mode,
+            disabled,
+            this._soundModeChanged
+          )
+        : nothing}
+    `;
+  }
+
+  private renderSelect(
+    attribute: string,
+    icon: string,
+    options: string[],
+    value: string | undefined,
+    disabled: boolean,
+    handler: (ev) => void
+  ) {
+    return html`
+      <mushroom-select
+        .label=${this.hass.formatEntityAttributeName(this.entity, attribute)}
+        .value=${value ?? ""}
+        .disabled=${disabled}
+        icon
+        @selected=${handler}
+        @closed=${(e) => e.stopPropagation()}
+        @click=${(e) => e.stopPropagation()}
+        fixedMenuPosition
+        naturalMenuWidth
+      >
+        <ha-icon slot="icon" .icon=${icon}></ha-icon>
+        ${options.map(
+          (option) => html`
+            <mwc-list-item .value=${option}>
+              ${this.hass.formatEntityAttributeValue(
+                this.entity,
+                attribute,
+                option
+              )}
+            </mwc-list-item>
+          `
+        )}
+      </mushroom-select>
+    `;
+  }
+
+  static get styles(): CSSResultGroup {
+    return css`
+      :host {
+        display: flex;
+        flex-direction: row;
+        gap: var(--control-spacing);
+      }
+      mushroom-select {
+        flex: 1;
+        min-width: 0;
+        --select-height: var(--control-height);
+      }
+    `;
+  }
+}
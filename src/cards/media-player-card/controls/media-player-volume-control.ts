@@ -36,6 +36,8 @@ export class MediaPlayerVolumeControls extends LitElement {
 
   @property({ attribute: false }) public controls!: MediaPlayerVolumeControl[];
 
+  @property({ attribute: false }) public members: MediaPlayerEntity[] = [];
+
   private handleSliderChange(e: CustomEvent<{ value: number }>): void {
     const value = e.detail.value;
     this.hass.callService("media_player", "volume_set", {
@@ -44,6 +46,16 @@ export class MediaPlayerVolumeControls extends LitElement {
     });
   }
 
+  private handleMemberSliderChange(
+    e: CustomEvent<{ value: number }>,
+    member: MediaPlayerEntity
+  ): void {
+    this.hass.callService("media_player", "volume_set", {
+      entity_id: member.entity_id,
+      volume_level: e.detail.value / 100,
+    });
+  }
+
   handleSliderCurrentChange(e: CustomEvent<{ value?: number }>): void {
     let value = e.detail.value;
     this.dispatchEvent(
@@ -80,6 +92,12 @@ export class MediaPlayerVolumeControls extends LitElement {
       this.controls?.includes("volume_buttons") &&
       supportsFeature(this.entity, MEDIA_PLAYER_SUPPORT_VOLUME_BUTTONS);
 
+    const otherMembers = this.members.filter(
+      (member) =>
+        member.entity_id !== this.entity.entity_id &&
+        supportsFeature(member, MEDIA_PLAYER_SUPPORT_VOLUME_SET)
+    );
+
     return html`
       <mushroom-button-group
         .fill=${this.fill && !displayVolumeSet}
@@ -135,11 +153,60 @@ export class MediaPlayerVolumeControls extends LitElement {
             `
           : undefined}
       </mushroom-button-group>
+      ${displayVolumeSet && otherMembers.length
+        ? html`
+            <div class="members">
+              ${otherMembers.map((member) => this.renderMember(member))}
+            </div>
+          `
+        : nothing}
+    `;
+  }
+
+  private renderMember(member: MediaPlayerEntity) {
+    return html`
+      <div class="member">
+        <span class="name">
+          ${member.attributes.friendly_name ?? member.entity_id}
+        </span>
+        <mushroom-slider
+          .value=${getVolumeLevel(member)}
+          .disabled=${!isAvailable(member) || isOff(member)}
+          .inactive=${!isActive(member)}
+          .showActive=${true}
+          .min=${0}
+          .max=${100}
+          @change=${(e: CustomEvent<{ value: number }>) =>
+            this.handleMemberSliderChange(e, member)}
+        />
+      </div>
     `;
   }
 
   static get styles(): CSSResultGroup {
     return css`
+      :host {
+        display: flex;
+        flex-direction: column;
+        gap: var(--control-spacing);
+      }
+      .members {
+        display: flex;
+        flex-direction: column;
+        gap: var(--control-spacing);
+      }
+      .member {
+        display: flex;
+        flex-direction: column;
+        gap: 4px;
+      }
+      .name {
+        font-size: var(--card-secondary-font-size);
+        color: var(--secondary-text-color);
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
       mushroom-slider {
         flex: 1;
         --main-color: rgb(var(--rgb-state-media-player));
@@ -1,4 +1,12 @@
-import { array, assign, boolean, enums, object, optional } from "superstruct";
+import {
+  array,
+  assign,
+  boolean,
+  enums,
+  object,
+  optional,
+  string,
+} from "superstruct";
 import { LovelaceCardConfig } from "../../ha";
 import {
   ActionsSharedConfig,
@@ -41,8 +49,14 @@ export type MediaPlayerCardConfig = LovelaceCardConfig &
   ActionsSharedConfig & {
     use_media_info?: boolean;
     show_volume_level?: boolean;
+    show_progress?: boolean;
+    artwork_color?: boolean;
     volume_controls?: MediaPlayerVolumeControl[];
     media_controls?: MediaPlayerMediaControl[];
+    show_source_control?: boolean;
+    show_sound_mode_control?: boolean;
+    show_group_control?: boolean;
+    group_entities?: string[];
     collapsible_controls?: boolean;
   };
 
@@ -56,8 +70,14 @@ export const mediaPlayerCardConfigStruct = assign(
   object({
     use_media_info: optional(boolean()),
     show_volume_level: optional(boolean()),
+    show_progress: optional(boolean()),
+    artwork_color: optional(boolean()),
     volume_controls: optional(array(enums(MEDIA_PLAYER_VOLUME_CONTROLS))),
     media_controls: optional(array(enums(MEDIA_LAYER_MEDIA_CONTROLS))),
+    show_source_control: optional(boolean()),
+    show_sound_mode_control: optional(boolean()),
+    show_group_control: optional(boolean()),
+    group_entities: optional(array(string())),
     collapsible_controls: optional(boolean()),
   })
 );
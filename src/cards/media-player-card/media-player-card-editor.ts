@@ -25,8 +25,13 @@ export const MEDIA_LABELS = [
   "use_media_info",
   "use_media_artwork",
   "show_volume_level",
+  "show_progress",
   "media_controls",
   "volume_controls",
+  "show_source_control",
+  "show_sound_mode_control",
+  "show_group_control",
+  "group_entities",
 ];
 
 const computeSchema = memoizeOne((localize: LocalizeFunc): HaFormSchema[] => [
@@ -43,6 +48,8 @@ const computeSchema = memoizeOne((localize: LocalizeFunc): HaFormSchema[] => [
     schema: [
       { name: "use_media_info", selector: { boolean: {} } },
       { name: "show_volume_level", selector: { boolean: {} } },
+      { name: "show_progress", selector: { boolean: {} } },
+      { name: "artwork_color", selector: { boolean: {} } },
     ],
   },
   {
@@ -79,9 +86,18 @@ const computeSchema = memoizeOne((localize: LocalizeFunc): HaFormSchema[] => [
           },
         },
       },
+      { name: "show_source_control", selector: { boolean: {} } },
+      { name: "show_sound_mode_control", selector: { boolean: {} } },
+      { name: "show_group_control", selector: { boolean: {} } },
       { name: "collapsible_controls", selector: { boolean: {} } },
     ],
   },
+  {
+    name: "group_entities",
+    selector: {
+      entity: { domain: MEDIA_PLAYER_ENTITY_DOMAINS, multiple: true },
+    },
+  },
   ...computeActionsFormSchema(),
 ]);
 
@@ -8,6 +8,7 @@ import {
 } from "lit";
 import { customElement, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
+import { styleMap } from "lit/directives/style-map.js";
 import {
   actionHandler,
   ActionHandlerEvent,
@@ -25,6 +26,7 @@ import "../../shared/card";
 import "../../shared/shape-avatar";
 import "../../shared/shape-icon";
 import { computeAppearance } from "../../utils/appearance";
+import { computeArtworkColorStyle } from "../../utils/artwork-color";
 import { MushroomBaseCard } from "../../utils/base-card";
 import { cardStyle } from "../../utils/card-styles";
 import { registerCustomCard } from "../../utils/custom-cards";
@@ -35,22 +37,36 @@ import {
   MEDIA_PLAYER_CARD_NAME,
   MEDIA_PLAYER_ENTITY_DOMAINS,
 } from "./const";
+import "./controls/media-player-group-control";
+import { isGroupControlVisible } from "./controls/media-player-group-control";
 import "./controls/media-player-media-control";
 import { isMediaControlVisible } from "./controls/media-player-media-control";
+import "./controls/media-player-progress-control";
+import { isProgressVisible } from "./controls/media-player-progress-control";
+import "./controls/media-player-source-control";
+import { isSourceControlVisible } from "./controls/media-player-source-control";
 import "./controls/media-player-volume-control";
 import { isVolumeControlVisible } from "./controls/media-player-volume-control";
 import { MediaPlayerCardConfig } from "./media-player-card-config";
 import {
+  computeGroupCandidates,
   computeMediaIcon,
   computeMediaNameDisplay,
   computeMediaStateDisplay,
+  getGroupMembers,
 } from "./utils";
 
-type MediaPlayerCardControl = "media_control" | "volume_control";
+type MediaPlayerCardControl =
+  | "media_control"
+  | "volume_control"
+  | "source_control"
+  | "group_control";
 
 const CONTROLS_ICONS: Record<MediaPlayerCardControl, string> = {
   media_control: "mdi:play-pause",
   volume_control: "mdi:volume-high",
+  source_control: "mdi:import",
+  group_control: "mdi:speaker-multiple",
 };
 
 registerCustomCard({
@@ -89,10 +105,24 @@ export class MediaPlayerCard
   protected get hasControls(): boolean {
     return (
       Boolean(this._config?.media_controls?.length) ||
-      Boolean(this._config?.volume_controls?.length)
+      Boolean(this._config?.volume_controls?.length) ||
+      Boolean(this._config?.show_source_control) ||
+      Boolean(this._config?.show_sound_mode_control) ||
+      Boolean(this._config?.show_group_control)
     );
   }
 
+  private get _isProgressBarVisible(): boolean {
+    const stateObj = this._stateObj;
+    return Boolean(
+      this._config?.show_progress && stateObj && isProgressVisible(stateObj)
+    );
+  }
+
+  protected get extraRows(): number {
+    return this._isProgressBarVisible ? 1 : 0;
+  }
+
   private get _controls(): MediaPlayerCardControl[] {
     if (!this._config || !this._stateObj) return [];
 
@@ -105,9 +135,33 @@ export class MediaPlayerCard
     if (isVolumeControlVisible(stateObj, this._config.volume_controls)) {
       controls.push("volume_control");
     }
+    if (
+      isSourceControlVisible(
+        stateObj,
+        this._config.show_source_control,
+        this._config.show_sound_mode_control
+      )
+    ) {
+      controls.push("source_control");
+    }
+    if (
+      this._config.show_group_control &&
+      isGroupControlVisible(stateObj, this._groupCandidates)
+    ) {
+      controls.push("group_control");
+    }
     return controls;
   }
 
+  private get _groupCandidates(): MediaPlayerEntity[] {
+    if (!this._config || !this._stateObj || !this.hass) return [];
+    return computeGroupCandidates(
+      this.hass,
+      this._stateObj,
+      this._config.group_entities
+    );
+  }
+
   _onControlTap(ctrl, e): void {
     e.stopPropagation();
     this._activeControl = ctrl;
@@ -119,6 +173,17 @@ export class MediaPlayerCard
     this.updateVolume();
   }
 
+  protected willUpdate(changedProperties: PropertyValues) {
+    super.willUpdate(changedProperties);
+    if (!this._config || !this._stateObj) return;
+    const appearance = computeAppearance(this._config);
+    this.updateArtworkColor(
+      this._config.artwork_color
+        ? computeEntityPicture(this._stateObj, appearance.icon_type)
+        : undefined
+    );
+  }
+
   protected updated(changedProperties: PropertyValues) {
     super.updated(changedProperties);
     if (this.hass && changedProperties.has("hass")) {
@@ -193,11 +258,20 @@ export class MediaPlayerCard
       (!this._config.collapsible_controls || isActive(stateObj)) &&
       this._controls.length;
 
+    const isProgressBarVisible = this._isProgressBarVisible;
+
+    const artworkColor = picture ? this._artworkColor : undefined;
+    const artworkStyle = {};
+    if (artworkColor) {
+      artworkStyle["--rgb-state-media-player"] = artworkColor;
+    }
+
     return html`
       <ha-card
         class=${classMap({
           "fill-container": appearance.fill_container,
         })}
+        style=${styleMap(artworkStyle)}
       >
         <mushroom-card .appearance=${appearance} ?rtl=${rtl}>
           <mushroom-state-item
@@ -210,7 +284,10 @@ export class MediaPlayerCard
             })}
           >
             ${picture
-              ? this.renderPicture(picture)
+              ? this.renderPicture(
+                  picture,
+                  computeArtworkColorStyle(artworkColor)
+                )
               : this.renderIcon(stateObj, icon)}
             ${this.renderBadge(stateObj)}
             ${this.renderStateInfo(
@@ -229,6 +306,14 @@ export class MediaPlayerCard
               `
             : nothing}
         </mushroom-card>
+        ${isProgressBarVisible
+          ? html`
+              <mushroom-media-player-progress-control
+                .hass=${this.hass}
+                .entity=${stateObj}
+              ></mushroom-media-player-progress-control>
+            `
+          : nothing}
       </ha-card>
     `;
   }
@@ -270,10 +355,28 @@ export class MediaPlayerCard
             .hass=${this.hass}
             .entity=${entity}
             .controls=${volume_controls}
+            .members=${getGroupMembers(this.hass, entity)}
             .fill=${layout !== "horizontal"}
             @current-change=${this.onCurrentVolumeChange}
           />
         `;
+      case "source_control":
+        return html`
+          <mushroom-media-player-source-control
+            .hass=${this.hass}
+            .entity=${entity}
+            .showSource=${Boolean(this._config?.show_source_control)}
+            .showSoundMode=${Boolean(this._config?.show_sound_mode_control)}
+          />
+        `;
+      case "group_control":
+        return html`
+          <mushroom-media-player-group-control
+            .hass=${this.hass}
+            .entity=${entity}
+            .candidates=${this._groupCandidates}
+          />
+        `;
       default:
         return nothing;
     }
@@ -292,9 +395,15 @@ export class MediaPlayerCard
           --shape-color: rgba(var(--rgb-state-media-player), 0.2);
         }
         mushroom-media-player-media-control,
-        mushroom-media-player-volume-control {
+        mushroom-media-player-volume-control,
+        mushroom-media-player-source-control,
+        mushroom-media-player-group-control {
           flex: 1;
         }
+        mushroom-media-player-progress-control {
+          padding: var(--control-spacing);
+          padding-top: 0;
+        }
       `,
     ];
   }
@@ -1,6 +1,7 @@
 import { HassEntity } from "home-assistant-js-websocket";
 import {
   HomeAssistant,
+  MEDIA_PLAYER_SUPPORT_GROUPING,
   MEDIA_PLAYER_SUPPORT_NEXT_TRACK,
   MEDIA_PLAYER_SUPPORT_PAUSE,
   MEDIA_PLAYER_SUPPORT_PLAY,
@@ -14,6 +15,7 @@ import {
   OFF,
   UNAVAILABLE,
   UNKNOWN,
+  computeDomain,
   computeMediaDescription,
   supportsFeature,
 } from "../../ha";
@@ -71,6 +73,42 @@ export function getVolumeLevel(entity: MediaPlayerEntity) {
     : undefined;
 }
 
+export function getGroupMembers(
+  hass: HomeAssistant,
+  entity: MediaPlayerEntity
+): MediaPlayerEntity[] {
+  return (entity.attributes.group_members ?? [])
+    .map((entityId) => hass.states[entityId] as MediaPlayerEntity | undefined)
+    .filter((stateObj): stateObj is MediaPlayerEntity => stateObj != null);
+}
+
+/**
+ * Players that can join the group of the entity: the configured ones, or the
+ * players of the same integration supporting grouping.
+ */
+export function computeGroupCandidates(
+  hass: HomeAssistant,
+  entity: MediaPlayerEntity,
+  entityIds?: string[]
+): MediaPlayerEntity[] {
+  const platform = hass.entities[entity.entity_id]?.platform;
+  const ids =
+    entityIds ??
+    Object.keys(hass.states).filter(
+      (entityId) =>
+        computeDomain(entityId) === "media_player" &&
+        hass.entities[entityId]?.platform === platform
+    );
+  return ids
+    .filter((entityId) => entityId !== entity.entity_id)
+    .map((entityId) => hass.states[entityId] as MediaPlayerEntity | undefined)
+    .filter(
+      (stateObj): stateObj is MediaPlayerEntity =>
+        stateObj != null &&
+        supportsFeature(stateObj, MEDIA_PLAYER_SUPPORT_GROUPING)
+    );
+}
+
 export function computeMediaIcon(
   config: MediaPlayerCardConfig,
   entity: MediaPlayerEntity
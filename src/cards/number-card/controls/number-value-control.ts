@@ -1,15 +1,29 @@
 import { HassEntity } from "home-assistant-js-websocket";
-import { css, CSSResultGroup, html, LitElement, TemplateResult } from "lit";
-import { customElement, property } from "lit/decorators.js";
 import {
-  getDefaultFormatOptions,
-  getNumberFormatOptions,
+  css,
+  CSSResultGroup,
+  html,
+  LitElement,
+  nothing,
+  TemplateResult,
+} from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import {
+  formatNumber,
   HomeAssistant,
   isActive,
   isAvailable,
 } from "../../../ha";
-import "../../../shared/slider";
+import setupCustomlocalize from "../../../localize";
+import "../../../shared/form/mushroom-textfield";
 import "../../../shared/input-number";
+import "../../../shared/slider";
+import { DisplayMode } from "../number-card-config";
+import {
+  computeFormatOptions,
+  NumberValueError,
+  validateNumberValue,
+} from "../utils";
 
 @customElement("mushroom-number-value-control")
 export class NumberValueControl extends LitElement {
@@ -17,10 +31,19 @@ export class NumberValueControl extends LitElement {
 
   @property({ attribute: false }) public entity!: HassEntity;
 
-  @property({ attribute: false }) public displayMode?: "slider" | "buttons";
+  @property({ attribute: false }) public displayMode?: DisplayMode;
+
+  @property({ type: Boolean }) public showTicks: boolean = false;
+
+  @property({ type: Boolean }) public showMinMax: boolean = false;
+
+  @state() private _error?: NumberValueError;
 
   onChange(e: CustomEvent<{ value: number }>): void {
-    const value = e.detail.value;
+    this._setValue(e.detail.value);
+  }
+
+  private _setValue(value: number): void {
     const domain = this.entity.entity_id.split(".")[0];
     this.hass.callService(domain, "set_value", {
       entity_id: this.entity.entity_id,
@@ -40,14 +63,56 @@ export class NumberValueControl extends LitElement {
     );
   }
 
+  private _onBoxChange(e: Event): void {
+    const input = (e.target as HTMLInputElement).value;
+    const value = Number(input);
+    if (input === "" || isNaN(value)) return;
+    const { min, max, step } = this.entity.attributes;
+    this._error = validateNumberValue(value, min, max, step);
+    if (this._error) return;
+    this._setValue(value);
+  }
+
+  private _computeErrorMessage(): string | undefined {
+    if (!this._error) return undefined;
+    const customLocalize = setupCustomlocalize(this.hass);
+    const { min, max, step } = this.entity.attributes;
+    const limit = { min, max, step }[this._error];
+    return customLocalize(`card.number.invalid_${this._error}`).replace(
+      "{value}",
+      formatNumber(limit, this.hass.locale)
+    );
+  }
+
   protected render(): TemplateResult {
     const value = Number(this.entity.state);
 
-    const formatOptions =
-      getNumberFormatOptions(
-        this.entity,
-        this.hass.entities[this.entity.entity_id]
-      ) ?? getDefaultFormatOptions(this.entity.state);
+    const formatOptions = computeFormatOptions(this.entity, this.hass);
+
+    if (this.displayMode === "box") {
+      const errorMessage = this._computeErrorMessage();
+      return html`
+        <mushroom-textfield
+          type="number"
+          inputmode="decimal"
+          .value=${!isNaN(value) ? String(value) : ""}
+          .min=${String(this.entity.attributes.min ?? "")}
+          .max=${String(this.entity.attributes.max ?? "")}
+          .step=${String(this.entity.attributes.step ?? "any")}
+          .suffix=${errorMessage
+            ? ""
+            : (this.entity.attributes.unit_of_measurement ?? "")}
+          .disabled=${!isAvailable(this.entity)}
+          .invalid=${Boolean(this._error)}
+          @change=${this._onBoxChange}
+          @input=${() => (this._error = undefined)}
+          @click=${(e: MouseEvent) => e.stopPropagation()}
+        ></mushroom-textfield>
+        ${errorMessage
+          ? html`<span class="error">${errorMessage}</span>`
+          : nothing}
+      `;
+    }
 
     if (this.displayMode === "buttons") {
       return html`
@@ -64,18 +129,39 @@ export class NumberValueControl extends LitElement {
       `;
     }
 
+    const { min, max } = this.entity.attributes;
+    const showMinMax = this.showMinMax && min != null && max != null;
+
+    // The limits sit beside the track so the fill and the thumb don't cover them
     return html`
-      <mushroom-slider
-        .value=${!isNaN(value) ? value : undefined}
-        .disabled=${!isAvailable(this.entity)}
-        .inactive=${!isActive(this.entity)}
-        .showActive=${true}
-        .min=${this.entity.attributes.min}
-        .max=${this.entity.attributes.max}
-        .step=${this.entity.attributes.step}
-        @change=${this.onChange}
-        @current-change=${this.onCurrentChange}
-      />
+      <div class="slider">
+        ${showMinMax
+          ? html`
+              <span class="limit">
+                ${formatNumber(min, this.hass.locale, formatOptions)}
+              </span>
+            `
+          : nothing}
+        <mushroom-slider
+          .value=${!isNaN(value) ? value : undefined}
+          .disabled=${!isAvailable(this.entity)}
+          .inactive=${!isActive(this.entity)}
+          .showActive=${true}
+          .showTicks=${this.showTicks}
+          .min=${min}
+          .max=${max}
+          .step=${this.entity.attributes.step}
+          @change=${this.onChange}
+          @current-change=${this.onCurrentChange}
+        ></mushroom-slider>
+        ${showMinMax
+          ? html`
+              <span class="limit">
+                ${formatNumber(max, this.hass.locale, formatOptions)}
+              </span>
+            `
+          : nothing}
+      </div>
     `;
   }
 
@@ -85,12 +171,44 @@ export class NumberValueControl extends LitElement {
         --slider-color: rgb(var(--rgb-state-number));
         --slider-outline-color: transparent;
         --slider-bg-color: rgba(var(--rgb-state-number), 0.2);
+        position: relative;
+        display: block;
+      }
+      .slider {
+        display: flex;
+        flex-direction: row;
+        align-items: center;
+        gap: var(--spacing);
       }
       mushroom-slider {
+        flex: 1;
         --main-color: var(--slider-color);
         --bg-color: var(--slider-bg-color);
         --main-outline-color: var(--slider-outline-color);
       }
+      mushroom-textfield {
+        display: block;
+        width: 100%;
+        --text-field-height: var(--control-height);
+        --mdc-shape-small: var(--control-border-radius);
+      }
+      .limit {
+        flex: none;
+        font-size: 10px;
+        font-weight: var(--card-secondary-font-weight);
+        color: var(--secondary-text-color);
+      }
+      /* Shown inside the field so the control keeps its height */
+      .error {
+        position: absolute;
+        top: 50%;
+        right: 16px;
+        transform: translateY(-50%);
+        font-size: 10px;
+        font-weight: var(--card-secondary-font-weight);
+        color: var(--error-color);
+        pointer-events: none;
+      }
     `;
   }
 }
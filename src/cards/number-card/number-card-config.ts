@@ -1,5 +1,6 @@
 import {
   assign,
+  boolean,
   enums,
   literal,
   object,
@@ -22,9 +23,9 @@ import {
 } from "../../shared/config/entity-config";
 import { lovelaceCardConfigStruct } from "../../shared/config/lovelace-card-config";
 
-export const DISPLAY_MODES = ["slider", "buttons"] as const;
+export const DISPLAY_MODES = ["slider", "buttons", "box"] as const;
 
-type DisplayMode = (typeof DISPLAY_MODES)[number];
+export type DisplayMode = (typeof DISPLAY_MODES)[number];
 
 export type NumberCardConfig = LovelaceCardConfig &
   EntitySharedConfig &
@@ -32,6 +33,8 @@ export type NumberCardConfig = LovelaceCardConfig &
   ActionsSharedConfig & {
     icon_color?: string;
     display_mode?: DisplayMode;
+    show_ticks?: boolean;
+    show_min_max?: boolean;
   };
 
 export const NumberCardConfigStruct = assign(
@@ -44,5 +47,7 @@ export const NumberCardConfigStruct = assign(
   object({
     icon_color: optional(string()),
     display_mode: optional(enums(DISPLAY_MODES)),
+    show_ticks: optional(boolean()),
+    show_min_max: optional(boolean()),
   })
 );
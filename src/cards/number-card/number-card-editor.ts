@@ -17,7 +17,7 @@ import {
   NumberCardConfigStruct,
 } from "./number-card-config";
 
-export const NUMBER_LABELS = ["display_mode"];
+export const NUMBER_LABELS = ["display_mode", "show_ticks", "show_min_max"];
 
 const computeSchema = memoizeOne((localize: LocalizeFunc): HaFormSchema[] => [
   { name: "entity", selector: { entity: { domain: NUMBER_ENTITY_DOMAINS } } },
@@ -47,6 +47,14 @@ const computeSchema = memoizeOne((localize: LocalizeFunc): HaFormSchema[] => [
       },
     },
   },
+  {
+    type: "grid",
+    name: "",
+    schema: [
+      { name: "show_ticks", selector: { boolean: {} } },
+      { name: "show_min_max", selector: { boolean: {} } },
+    ],
+  },
   ...computeActionsFormSchema(),
 ]);
 
@@ -41,6 +41,7 @@ import {
 } from "./const";
 import "./controls/number-value-control";
 import { NumberCardConfig } from "./number-card-config";
+import { computeDisplayMode } from "./utils";
 
 registerCustomCard({
   type: NUMBER_CARD_NAME,
@@ -162,7 +163,9 @@ export class NumberCard
             <mushroom-number-value-control
               .hass=${this.hass}
               .entity=${stateObj}
-              .displayMode=${this._config.display_mode}
+              .displayMode=${computeDisplayMode(this._config, stateObj)}
+              .showTicks=${Boolean(this._config.show_ticks)}
+              .showMinMax=${Boolean(this._config.show_min_max)}
               style=${styleMap(sliderStyle)}
               @current-change=${this.onCurrentValueChange}
             ></mushroom-number-value-control>
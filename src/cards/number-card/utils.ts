@@ -0,0 +1,47 @@
+import { HassEntity } from "home-assistant-js-websocket";
+import {
+  getDefaultFormatOptions,
+  getNumberFormatOptions,
+  HomeAssistant,
+} from "../../ha";
+import { DisplayMode, NumberCardConfig } from "./number-card-config";
+
+export function computeFormatOptions(
+  stateObj: HassEntity,
+  hass: HomeAssistant
+): Intl.NumberFormatOptions {
+  return (
+    getNumberFormatOptions(stateObj, hass.entities[stateObj.entity_id]) ??
+    getDefaultFormatOptions(stateObj.state)
+  );
+}
+
+/**
+ * Display mode of the card, following the mode of the entity when the card
+ * doesn't set one so entities configured as a box show an input field.
+ */
+export function computeDisplayMode(
+  config: NumberCardConfig,
+  stateObj: HassEntity
+): DisplayMode {
+  if (config.display_mode) return config.display_mode;
+  return stateObj.attributes.mode === "box" ? "box" : "slider";
+}
+
+export type NumberValueError = "min" | "max" | "step";
+
+export function validateNumberValue(
+  value: number,
+  min?: number,
+  max?: number,
+  step?: number
+): NumberValueError | undefined {
+  if (min != null && value < min) return "min";
+  if (max != null && value > max) return "max";
+  if (step) {
+    const steps = (value - (min ?? 0)) / step;
+    // Tolerate floating point errors of decimal steps
+    if (Math.abs(steps - Math.round(steps)) > 1e-6) return "step";
+  }
+  return undefined;
+}
@@ -17,7 +17,9 @@ import { lovelaceCardConfigStruct } from "../../shared/config/lovelace-card-conf
 export type PersonCardConfig = LovelaceCardConfig &
   EntitySharedConfig &
   AppearanceSharedConfig &
-  ActionsSharedConfig;
+  ActionsSharedConfig & {
+    artwork_color?: boolean;
+  };
 
 export const personCardConfigStruct = assign(
   lovelaceCardConfigStruct,
@@ -25,5 +27,8 @@ export const personCardConfigStruct = assign(
     entitySharedConfigStruct,
     appearanceSharedConfigStruct,
     actionsSharedConfigStruct
-  )
+  ),
+  object({
+    artwork_color: optional(boolean()),
+  })
 );
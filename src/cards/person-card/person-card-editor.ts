@@ -28,6 +28,7 @@ const computeSchema = memoizeOne((): HaFormSchema[] => [
   { name: "name", selector: { text: {} } },
   { name: "icon", selector: { icon: {} }, context: { icon_entity: "entity" } },
   ...APPEARANCE_FORM_SCHEMA,
+  { name: "artwork_color", selector: { boolean: {} } },
   ...computeActionsFormSchema(actions),
 ]);
 
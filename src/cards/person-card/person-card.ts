@@ -1,5 +1,5 @@
 import { HassEntity } from "home-assistant-js-websocket";
-import { css, CSSResultGroup, html, nothing } from "lit";
+import { css, CSSResultGroup, html, nothing, PropertyValues } from "lit";
 import { customElement } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { styleMap } from "lit/directives/style-map.js";
@@ -21,6 +21,7 @@ import "../../shared/shape-icon";
 import "../../shared/state-info";
 import "../../shared/state-item";
 import { computeAppearance } from "../../utils/appearance";
+import { computeArtworkColorStyle } from "../../utils/artwork-color";
 import { MushroomBaseCard } from "../../utils/base-card";
 import { cardStyle } from "../../utils/card-styles";
 import { registerCustomCard } from "../../utils/custom-cards";
@@ -64,6 +65,17 @@ export class PersonCard
     };
   }
 
+  protected willUpdate(changedProperties: PropertyValues) {
+    super.willUpdate(changedProperties);
+    if (!this._config || !this._stateObj) return;
+    const appearance = computeAppearance(this._config);
+    this.updateArtworkColor(
+      this._config.artwork_color
+        ? computeEntityPicture(this._stateObj, appearance.icon_type)
+        : undefined
+    );
+  }
+
   private _handleAction(ev: ActionHandlerEvent) {
     handleAction(this, this.hass!, this._config!, ev.detail.action!);
   }
@@ -86,6 +98,8 @@ export class PersonCard
 
     const rtl = computeRTL(this.hass);
 
+    const artworkColor = picture ? this._artworkColor : undefined;
+
     return html`
       <ha-card
         class=${classMap({ "fill-container": appearance.fill_container })}
@@ -101,7 +115,10 @@ export class PersonCard
             })}
           >
             ${picture
-              ? this.renderPicture(picture)
+              ? this.renderPicture(
+                  picture,
+                  computeArtworkColorStyle(artworkColor)
+                )
               : this.renderIcon(stateObj, icon)}
             ${this.renderBadge(stateObj)}
             ${this.renderStateInfo(stateObj, appearance, name)};
@@ -29,6 +29,7 @@ export type TemplateCardConfig = LovelaceCardConfig &
     badge_icon?: string;
     badge_color?: string;
     picture?: string;
+    artwork_color?: boolean;
     multiline_secondary?: boolean;
     entity_id?: string | string[];
   };
@@ -45,6 +46,7 @@ export const templateCardConfigStruct = assign(
     badge_icon: optional(string()),
     badge_color: optional(string()),
     picture: optional(string()),
+    artwork_color: optional(boolean()),
     multiline_secondary: optional(boolean()),
     entity_id: optional(union([string(), array(string())])),
   })
@@ -61,6 +61,7 @@ const SCHEMA: HaFormSchema[] = [
       { name: "layout", selector: { mush_layout: {} } },
       { name: "fill_container", selector: { boolean: {} } },
       { name: "multiline_secondary", selector: { boolean: {} } },
+      { name: "artwork_color", selector: { boolean: {} } },
     ],
   },
   ...computeActionsFormSchema(),
@@ -9,7 +9,7 @@ import {
 } from "lit";
 import { customElement, property, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
-import { styleMap } from "lit/directives/style-map.js";
+import { StyleInfo, styleMap } from "lit/directives/style-map.js";
 import hash from "object-hash/dist/object_hash";
 import {
   actionHandler,
@@ -29,6 +29,7 @@ import "../../shared/shape-icon";
 import "../../shared/state-info";
 import "../../shared/state-item";
 import { computeAppearance } from "../../utils/appearance";
+import { computeArtworkColorStyle } from "../../utils/artwork-color";
 import { MushroomBaseElement } from "../../utils/base-element";
 import { CacheManager } from "../../utils/cache-manager";
 import { cardStyle } from "../../utils/card-styles";
@@ -197,6 +198,11 @@ export class TemplateCard extends MushroomBaseElement implements LovelaceCard {
         this._templateResults = {};
       }
     }
+
+    const picture = this.getValue("picture");
+    this.updateArtworkColor(
+      this._config.artwork_color && this.hass ? picture : undefined
+    );
   }
 
   private _handleAction(ev: ActionHandlerEvent) {
@@ -245,6 +251,8 @@ export class TemplateCard extends MushroomBaseElement implements LovelaceCard {
 
     const weatherSvg = getWeatherSvgIcon(icon);
 
+    const artworkColor = picture ? this._artworkColor : undefined;
+
     return html`
       <ha-card
         class=${classMap({ "fill-container": appearance.fill_container })}
@@ -260,7 +268,10 @@ export class TemplateCard extends MushroomBaseElement implements LovelaceCard {
             })}
           >
             ${picture
-              ? this.renderPicture(picture)
+              ? this.renderPicture(
+                  picture,
+                  computeArtworkColorStyle(artworkColor)
+                )
               : weatherSvg
                 ? html`<div slot="icon">${weatherSvg}</div>`
                 : icon
@@ -281,10 +292,11 @@ export class TemplateCard extends MushroomBaseElement implements LovelaceCard {
     `;
   }
 
-  renderPicture(picture: string): TemplateResult {
+  renderPicture(picture: string, style?: StyleInfo): TemplateResult {
     return html`
       <mushroom-shape-avatar
         slot="icon"
+        style=${styleMap(style ?? {})}
         .picture_url=${(this.hass as any).hassUrl(picture)}
       ></mushroom-shape-avatar>
     `;
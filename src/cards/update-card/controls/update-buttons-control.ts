@@ -1,13 +1,24 @@
-import { html, LitElement, TemplateResult } from "lit";
-import { customElement, property } from "lit/decorators.js";
+import {
+  css,
+  CSSResultGroup,
+  html,
+  LitElement,
+  nothing,
+  TemplateResult,
+} from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
 import {
   computeRTL,
   HomeAssistant,
   isActive,
   isAvailable,
+  supportsFeature,
+  UPDATE_SUPPORT_BACKUP,
   UpdateEntity,
   updateIsInstalling,
 } from "../../../ha";
+import setupCustomlocalize from "../../../localize";
 import "../../../shared/button";
 import "../../../shared/button-group";
 
@@ -19,12 +30,28 @@ export class UpdateButtonsControl extends LitElement {
 
   @property({ type: Boolean }) public fill: boolean = false;
 
+  @property({ type: Boolean }) public showBackup: boolean = false;
+
+  @state() private _backup = false;
+
+  private get backupVisible(): boolean {
+    return (
+      this.showBackup && supportsFeature(this.entity, UPDATE_SUPPORT_BACKUP)
+    );
+  }
+
   private _handleInstall(): void {
     this.hass.callService("update", "install", {
       entity_id: this.entity.entity_id,
+      ...(this.backupVisible ? { backup: this._backup } : {}),
     });
   }
 
+  private _handleBackup(e: MouseEvent): void {
+    e.stopPropagation();
+    this._backup = !this._backup;
+  }
+
   private _handleSkip(e: MouseEvent): void {
     e.stopPropagation();
     this.hass.callService("update", "skip", {
@@ -59,9 +86,22 @@ export class UpdateButtonsControl extends LitElement {
 
   protected render(): TemplateResult {
     const rtl = computeRTL(this.hass);
+    const customLocalize = setupCustomlocalize(this.hass);
 
     return html`
       <mushroom-button-group .fill=${this.fill} ?rtl=${rtl}>
+        ${this.backupVisible
+          ? html`
+              <mushroom-button
+                class=${classMap({ active: this._backup })}
+                .title=${customLocalize("card.update.backup")}
+                .disabled=${this.installDisabled}
+                @click=${this._handleBackup}
+              >
+                <ha-icon icon="mdi:backup-restore"></ha-icon>
+              </mushroom-button>
+            `
+          : nothing}
         <mushroom-button
           .disabled=${this.skipDisabled}
           @click=${this._handleSkip}
@@ -77,4 +117,13 @@ export class UpdateButtonsControl extends LitElement {
       </mushroom-button-group>
     `;
   }
+
+  static get styles(): CSSResultGroup {
+    return css`
+      mushroom-button.active {
+        --icon-color: rgb(var(--rgb-state-update-installing));
+        --bg-color: rgba(var(--rgb-state-update-installing), 0.2);
+      }
+    `;
+  }
 }
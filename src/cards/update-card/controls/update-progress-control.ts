@@ -0,0 +1,89 @@
+import { css, CSSResultGroup, html, LitElement, nothing } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import { styleMap } from "lit/directives/style-map.js";
+import {
+  HomeAssistant,
+  UpdateEntity,
+  updateIsInstalling,
+  updateUsesProgress,
+} from "../../../ha";
+
+@customElement("mushroom-update-progress-control")
+export class UpdateProgressControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: UpdateEntity;
+
+  protected render() {
+    if (!this.entity || !updateIsInstalling(this.entity)) return nothing;
+
+    // Integrations without progress support only report a boolean
+    const progress = updateUsesProgress(this.entity)
+      ? (this.entity.attributes.in_progress as number)
+      : undefined;
+
+    return html`
+      <div class="container">
+        <div
+          class=${classMap({
+            track: true,
+            indeterminate: progress == null,
+          })}
+        >
+          <div
+            class="bar"
+            style=${styleMap(progress != null ? { width: `${progress}%` } : {})}
+          ></div>
+        </div>
+        ${progress != null
+          ? html`<span class="value">${Math.round(progress)} %</span>`
+          : nothing}
+      </div>
+    `;
+  }
+
+  static get styles(): CSSResultGroup {
+    return css`
+      .container {
+        display: flex;
+        flex-direction: row;
+        align-items: center;
+        gap: var(--spacing);
+      }
+      .track {
+        position: relative;
+        flex: 1;
+        height: var(--update-progress-height);
+        border-radius: var(--control-border-radius);
+        background-color: rgba(var(--rgb-state-update-installing), 0.2);
+        overflow: hidden;
+      }
+      .bar {
+        height: 100%;
+        border-radius: var(--control-border-radius);
+        background-color: rgb(var(--rgb-state-update-installing));
+        transition: width 280ms ease-in-out;
+      }
+      .indeterminate .bar {
+        position: absolute;
+        width: 30%;
+        animation: indeterminate 1.5s ease-in-out infinite;
+      }
+      .value {
+        font-size: var(--card-secondary-font-size);
+        font-weight: var(--card-secondary-font-weight);
+        color: var(--secondary-text-color);
+        font-variant-numeric: tabular-nums;
+      }
+      @keyframes indeterminate {
+        from {
+          left: -30%;
+        }
+        to {
+          left: 100%;
+        }
+      }
+    `;
+  }
+}
@@ -19,6 +19,8 @@ export type UpdateCardConfig = LovelaceCardConfig &
   AppearanceSharedConfig &
   ActionsSharedConfig & {
     show_buttons_control?: boolean;
+    show_backup_toggle?: boolean;
+    show_release_notes?: boolean;
     collapsible_controls?: boolean;
   };
 
@@ -31,6 +33,8 @@ export const updateCardConfigStruct = assign(
   ),
   object({
     show_buttons_control: optional(boolean()),
+    show_backup_toggle: optional(boolean()),
+    show_release_notes: optional(boolean()),
     collapsible_controls: optional(boolean()),
   })
 );
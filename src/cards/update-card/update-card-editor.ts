@@ -14,7 +14,11 @@ import { loadHaComponents } from "../../utils/loader";
 import { UPDATE_CARD_EDITOR_NAME, UPDATE_ENTITY_DOMAINS } from "./const";
 import { UpdateCardConfig, updateCardConfigStruct } from "./update-card-config";
 
-const UPDATE_LABELS = ["show_buttons_control"];
+const UPDATE_LABELS = [
+  "show_buttons_control",
+  "show_backup_toggle",
+  "show_release_notes",
+];
 
 const actions: UiAction[] = [
   "more-info",
@@ -35,6 +39,8 @@ const computeSchema = memoizeOne((): HaFormSchema[] => [
     name: "",
     schema: [
       { name: "show_buttons_control", selector: { boolean: {} } },
+      { name: "show_backup_toggle", selector: { boolean: {} } },
+      { name: "show_release_notes", selector: { boolean: {} } },
       { name: "collapsible_controls", selector: { boolean: {} } },
     ],
   },
@@ -15,9 +15,13 @@ import {
   LovelaceCardEditor,
   supportsFeature,
   UPDATE_SUPPORT_INSTALL,
+  UPDATE_SUPPORT_RELEASE_NOTES,
   UpdateEntity,
   updateIsInstalling,
+  updateReleaseNotes,
 } from "../../ha";
+import setupCustomlocalize from "../../localize";
+import "../../shared/button";
 import "../../shared/badge-icon";
 import "../../shared/card";
 import "../../shared/shape-icon";
@@ -28,12 +32,14 @@ import { MushroomBaseCard } from "../../utils/base-card";
 import { cardStyle } from "../../utils/card-styles";
 import { registerCustomCard } from "../../utils/custom-cards";
 import { computeEntityPicture } from "../../utils/info";
+import { loadMarkdown } from "../../utils/loader";
 import {
   UPDATE_CARD_EDITOR_NAME,
   UPDATE_CARD_NAME,
   UPDATE_ENTITY_DOMAINS,
 } from "./const";
 import "./controls/update-buttons-control";
+import "./controls/update-progress-control";
 import { UpdateCardConfig } from "./update-card-config";
 import { getStateColor } from "./utils";
 
@@ -68,7 +74,12 @@ export class UpdateCard
     };
   }
 
-  protected get hasControls() {
+  @state() private _releaseNotesOpen = false;
+
+  // undefined while loading, null when the integration has no notes
+  @state() private _releaseNotes?: string | null;
+
+  private get _buttonsVisible(): boolean {
     if (!this._stateObj || !this._config) return false;
     return (
       Boolean(this._config.show_buttons_control) &&
@@ -76,6 +87,47 @@ export class UpdateCard
     );
   }
 
+  private get _releaseNotesVisible(): boolean {
+    if (!this._stateObj || !this._config) return false;
+    return (
+      Boolean(this._config.show_release_notes) &&
+      supportsFeature(this._stateObj, UPDATE_SUPPORT_RELEASE_NOTES)
+    );
+  }
+
+  protected get hasControls() {
+    return this._buttonsVisible || this._releaseNotesVisible;
+  }
+
+  protected get extraRows(): number {
+    let rows = 0;
+    if (this._stateObj && updateIsInstalling(this._stateObj)) {
+      rows += 1;
+    }
+    // Release notes scroll past 300px, about five rows
+    if (this._releaseNotesOpen && this._releaseNotesVisible) {
+      rows += this._releaseNotes === undefined ? 1 : 5;
+    }
+    return rows;
+  }
+
+  private async _onReleaseNotesTap(e: MouseEvent): Promise<void> {
+    e.stopPropagation();
+    this._releaseNotesOpen = !this._releaseNotesOpen;
+    if (!this._releaseNotesOpen) return;
+
+    this._releaseNotes = undefined;
+    void loadMarkdown();
+    try {
+      this._releaseNotes = await updateReleaseNotes(
+        this.hass,
+        this._stateObj!.entity_id
+      );
+    } catch (_err) {
+      this._releaseNotes = null;
+    }
+  }
+
   private _handleAction(ev: ActionHandlerEvent) {
     handleAction(this, this.hass!, this._config!, ev.detail.action!);
   }
@@ -100,8 +152,7 @@ export class UpdateCard
 
     const displayControls =
       (!this._config.collapsible_controls || isActive(stateObj)) &&
-      this._config.show_buttons_control &&
-      supportsFeature(stateObj, UPDATE_SUPPORT_INSTALL);
+      this.hasControls;
 
     return html`
       <ha-card
@@ -126,19 +177,83 @@ export class UpdateCard
           ${displayControls
             ? html`
                 <div class="actions" ?rtl=${rtl}>
-                  <mushroom-update-buttons-control
-                    .hass=${this.hass}
-                    .entity=${stateObj}
-                    .fill=${appearance.layout !== "horizontal"}
-                  ></mushroom-update-buttons-control>
+                  ${this._buttonsVisible
+                    ? html`
+                        <mushroom-update-buttons-control
+                          .hass=${this.hass}
+                          .entity=${stateObj}
+                          .showBackup=${Boolean(
+                            this._config.show_backup_toggle
+                          )}
+                          .fill=${appearance.layout !== "horizontal"}
+                        ></mushroom-update-buttons-control>
+                      `
+                    : nothing}
+                  ${this._releaseNotesVisible
+                    ? html`
+                        <mushroom-button
+                          class=${classMap({ active: this._releaseNotesOpen })}
+                          .title=${setupCustomlocalize(this.hass)(
+                            "card.update.release_notes"
+                          )}
+                          @click=${this._onReleaseNotesTap}
+                        >
+                          <ha-icon icon="mdi:text-box-outline"></ha-icon>
+                        </mushroom-button>
+                      `
+                    : nothing}
                 </div>
               `
             : nothing}
         </mushroom-card>
+        ${updateIsInstalling(stateObj)
+          ? html`
+              <mushroom-update-progress-control
+                .hass=${this.hass}
+                .entity=${stateObj}
+              ></mushroom-update-progress-control>
+            `
+          : nothing}
+        ${this._releaseNotesOpen && this._releaseNotesVisible
+          ? this.renderReleaseNotes(stateObj)
+          : nothing}
       </ha-card>
     `;
   }
 
+  private renderReleaseNotes(stateObj: UpdateEntity): TemplateResult {
+    if (this._releaseNotes === undefined) {
+      return html`
+        <div class="release-notes loading">
+          ${this.hass.localize("ui.common.loading")}
+        </div>
+      `;
+    }
+    const notes =
+      this._releaseNotes ??
+      stateObj.attributes.release_summary ??
+      setupCustomlocalize(this.hass)("card.update.no_release_notes");
+    return html`
+      <div class="release-notes">
+        <ha-markdown breaks .content=${notes}></ha-markdown>
+        ${stateObj.attributes.release_url
+          ? html`
+              <a
+                href=${stateObj.attributes.release_url}
+                target="_blank"
+                rel="noreferrer"
+                @click=${(e: MouseEvent) => e.stopPropagation()}
+              >
+                ${this.hass.localize(
+                  "ui.dialogs.more_info_control.update.release_announcement"
+                )}
+              </a>
+            `
+          : nothing}
+      </div>
+    `;
+  }
+
   protected renderIcon(stateObj: UpdateEntity, icon?: string): TemplateResult {
     const isInstalling = updateIsInstalling(stateObj);
 
@@ -185,6 +300,28 @@ export class UpdateCard
         mushroom-update-buttons-control {
           flex: 1;
         }
+        mushroom-button.active {
+          --icon-color: rgb(var(--rgb-state-update-on));
+          --bg-color: rgba(var(--rgb-state-update-on), 0.2);
+        }
+        mushroom-update-progress-control,
+        .release-notes {
+          display: block;
+          padding: var(--control-spacing);
+          padding-top: 0;
+        }
+        .release-notes {
+          max-height: 300px;
+          overflow-y: auto;
+          font-size: var(--card-secondary-font-size);
+          color: var(--primary-text-color);
+        }
+        .release-notes.loading {
+          color: var(--secondary-text-color);
+        }
+        .release-notes a {
+          color: var(--primary-color);
+        }
       `,
     ];
   }
@@ -0,0 +1,81 @@
+import { css, CSSResultGroup, html, LitElement, nothing } from "lit";
+import { customElement, property } from "lit/decorators.js";
+import {
+  HomeAssistant,
+  isAvailable,
+  supportsFeature,
+  VacuumEntity,
+  VACUUM_SUPPORT_FAN_SPEED,
+} from "../../../ha";
+import "../../../shared/form/mushroom-select";
+import { loadHaComponents } from "../../../utils/loader";
+
+export const isFanSpeedVisible = (entity: VacuumEntity) =>
+  supportsFeature(entity, VACUUM_SUPPORT_FAN_SPEED) &&
+  Boolean(entity.attributes.fan_speed_list?.length);
+
+@customElement("mushroom-vacuum-fan-speed-control")
+export class VacuumFanSpeedControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: VacuumEntity;
+
+  connectedCallback() {
+    super.connectedCallback();
+    // mushroom-select relies on the mwc list items loaded by the HA editors
+    void loadHaComponents();
+  }
+
+  private _fanSpeedChanged(ev) {
+    const fanSpeed = ev.target.value;
+    if (!fanSpeed || fanSpeed === this.entity.attributes.fan_speed) return;
+    this.hass.callService("vacuum", "set_fan_speed", {
+      entity_id: this.entity.entity_id,
+      fan_speed: fanSpeed,
+    });
+  }
+
+  protected render() {
+    if (!this.entity || !isFanSpeedVisible(this.entity)) return nothing;
+
+    return html`
+      <mushroom-select
+        .label=${this.hass.formatEntityAttributeName(this.entity, "fan_speed")}
+        .value=${this.entity.attributes.fan_speed ?? ""}
+        .disabled=${!isAvailable(this.entity)}
+        icon
+        @selected=${this._fanSpeedChanged}
+        @closed=${(e) => e.stopPropagation()}
+        @click=${(e) => e.stopPropagation()}
+        fixedMenuPosition
+        naturalMenuWidth
+      >
+        <ha-icon slot="icon" icon="mdi:fan"></ha-icon>
+        ${this.entity.attributes.fan_speed_list!.map(
+          (fanSpeed) => html`
+            <mwc-list-item .value=${fanSpeed}>
+              ${this.hass.formatEntityAttributeValue(
+                this.entity,
+                "fan_speed",
+                fanSpeed
+              )}
+            </mwc-list-item>
+          `
+        )}
+      </mushroom-select>
+    `;
+  }
+
+  static get styles(): CSSResultGroup {
+    return css`
+      :host {
+        display: flex;
+      }
+      mushroom-select {
+        flex: 1;
+        min-width: 0;
+        --select-height: var(--control-height);
+      }
+    `;
+  }
+}
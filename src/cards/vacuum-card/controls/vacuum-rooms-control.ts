@@ -0,0 +1,127 @@
+import { css, CSSResultGroup, html, LitElement, nothing } from "lit";
+import { customElement, property, state } from "lit/decorators.js";
+import { classMap } from "lit/directives/class-map.js";
+import { HomeAssistant, isAvailable, VacuumEntity } from "../../../ha";
+import setupCustomlocalize from "../../../localize";
+import "../../../shared/button";
+import "../../../shared/chip";
+import { computeRoomsServiceCalls } from "../utils";
+import {
+  VacuumRoom,
+  VacuumRoomCommandPreset,
+  VacuumServiceCall,
+} from "../vacuum-card-config";
+
+export const isRoomsControlVisible = (rooms?: VacuumRoom[]) =>
+  Boolean(rooms?.length);
+
+@customElement("mushroom-vacuum-rooms-control")
+export class VacuumRoomsControl extends LitElement {
+  @property({ attribute: false }) public hass!: HomeAssistant;
+
+  @property({ attribute: false }) public entity!: VacuumEntity;
+
+  @property({ attribute: false }) public rooms: VacuumRoom[] = [];
+
+  @property({ attribute: false }) public command?:
+    | VacuumRoomCommandPreset
+    | VacuumServiceCall;
+
+  @state() private _selected: number[] = [];
+
+  private _onRoomTap(e: MouseEvent, index: number): void {
+    e.stopPropagation();
+    this._selected = this._selected.includes(index)
+      ? this._selected.filter((selected) => selected !== index)
+      : [...this._selected, index];
+  }
+
+  private _onCleanTap(e: MouseEvent): void {
+    e.stopPropagation();
+    const rooms = this._selected
+      .map((index) => this.rooms[index])
+      .filter(Boolean);
+    computeRoomsServiceCalls(
+      this.entity.entity_id,
+      rooms,
+      this.command
+    ).forEach(({ service, data }) => {
+      const [domain, serviceName] = service.split(".", 2);
+      this.hass.callService(domain, serviceName, data);
+    });
+    this._selected = [];
+  }
+
+  protected render() {
+    if (!this.entity) return nothing;
+
+    const customLocalize = setupCustomlocalize(this.hass);
+    const disabled = !isAvailable(this.entity);
+
+    return html`
+      <div class="chips">
+        ${this.rooms.map((room, index) => {
+          const active = this._selected.includes(index);
+          return html`
+            <mushroom-chip
+              class=${classMap({ active, disabled })}
+              @click=${(e: MouseEvent) => this._onRoomTap(e, index)}
+            >
+              ${room.icon
+                ? html`<ha-icon .icon=${room.icon}></ha-icon>`
+                : nothing}
+              <span>${room.name}</span>
+            </mushroom-chip>
+          `;
+        })}
+      </div>
+      <mushroom-button
+        .title=${customLocalize("card.vacuum.clean_selected")}
+        .disabled=${disabled || this._selected.length === 0}
+        @click=${this._onCleanTap}
+      >
+        <ha-icon icon="mdi:play"></ha-icon>
+      </mushroom-button>
+    `;
+  }
+
+  static get styles(): CSSResultGroup {
+    return css`
+      :host {
+        display: flex;
+        flex-direction: row;
+        align-items: center;
+        gap: var(--spacing);
+        min-width: 0;
+      }
+      .chips {
+        flex: 1;
+        min-width: 0;
+        display: flex;
+        flex-direction: row;
+        align-items: center;
+        gap: var(--chip-spacing);
+        height: var(--control-height);
+        overflow-x: auto;
+        scrollbar-width: none;
+      }
+      .chips::-webkit-scrollbar {
+        display: none;
+      }
+      mushroom-chip {
+        cursor: pointer;
+        flex: none;
+        --chip-box-shadow: none;
+      }
+      mushroom-chip.active {
+        --chip-background: rgba(var(--rgb-state-vacuum), 0.2);
+        --icon-color: rgb(var(--rgb-state-vacuum));
+        --text-color: rgb(var(--rgb-state-vacuum));
+      }
+      mushroom-chip.disabled {
+        pointer-events: none;
+        opacity: 0.5;
+      }
+    `;
+  }
+}
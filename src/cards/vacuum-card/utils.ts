@@ -7,6 +7,35 @@ import {
   STATE_ON,
   STATE_RETURNING,
 } from "../../ha";
+import {
+  VacuumRoom,
+  VacuumRoomCommandPreset,
+  VacuumServiceCall,
+} from "./vacuum-card-config";
+
+const ROOM_COMMAND_TEMPLATES: Record<
+  VacuumRoomCommandPreset,
+  VacuumServiceCall
+> = {
+  roborock: {
+    service: "vacuum.send_command",
+    data: { command: "app_segment_clean", params: "{segments}" },
+  },
+  valetudo: {
+    service: "vacuum.send_command",
+    data: {
+      command: "segment_cleanup",
+      params: { segment_ids: "{segments}" },
+    },
+  },
+  ecovacs: {
+    service: "vacuum.send_command",
+    data: {
+      command: "spot_area",
+      params: { rooms: "{segments_joined}", cleanings: 1 },
+    },
+  },
+};
 
 export function isCleaning(stateObj: HassEntity): boolean {
   switch (stateObj.state) {
@@ -38,3 +67,90 @@ export function isReturningHome(stateObj: HassEntity): boolean {
       return false;
   }
 }
+
+export function getBatteryIcon(level: number, charging: boolean): string {
+  const rounded = Math.round(level / 10) * 10;
+  if (charging) {
+    return rounded >= 100
+      ? "mdi:battery-charging-100"
+      : `mdi:battery-charging-${Math.max(rounded, 10)}`;
+  }
+  if (rounded >= 100) return "mdi:battery";
+  if (rounded <= 0) return "mdi:battery-outline";
+  return `mdi:battery-${rounded}`;
+}
+
+export function getBatteryColor(level: number): string {
+  if (level <= 20) return "var(--rgb-red)";
+  if (level <= 50) return "var(--rgb-orange)";
+  return "var(--rgb-green)";
+}
+
+/**
+ * Replaces `{segments}` by the list of segment ids and `{segments_joined}` by
+ * the same ids separated by commas, anywhere in the template data.
+ */
+function renderRoomTemplate(
+  value: unknown,
+  segments: (string | number)[]
+): unknown {
+  if (value === "{segments}") return segments;
+  if (typeof value === "string") {
+    return value.replace("{segments_joined}", segments.join(","));
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderRoomTemplate(item, segments));
+  }
+  if (value && typeof value === "object") {
+    return renderRoomTemplateData(value as Record<string, unknown>, segments);
+  }
+  return value;
+}
+
+function renderRoomTemplateData(
+  data: Record<string, unknown>,
+  segments: (string | number)[]
+): Record<string, unknown> {
+  return Object.keys(data).reduce(
+    (acc, key) => {
+      acc[key] = renderRoomTemplate(data[key], segments);
+      return acc;
+    },
+    {} as Record<string, unknown>
+  );
+}
+
+/**
+ * Service calls cleaning the given rooms: rooms with their own service are
+ * called one by one, the segments of the others are sent in a single command.
+ */
+export function computeRoomsServiceCalls(
+  entityId: string,
+  rooms: VacuumRoom[],
+  command: VacuumRoomCommandPreset | VacuumServiceCall = "roborock"
+): VacuumServiceCall[] {
+  const calls: VacuumServiceCall[] = rooms
+    .filter((room) => room.service)
+    .map((room) => ({
+      service: room.service!,
+      data: { entity_id: entityId, ...room.service_data },
+    }));
+
+  const segments = rooms
+    .filter((room) => !room.service)
+    .reduce<
+      (string | number)[]
+    >((acc, room) => acc.concat(room.segments ?? []), []);
+  if (segments.length) {
+    const template =
+      typeof command === "string" ? ROOM_COMMAND_TEMPLATES[command] : command;
+    calls.push({
+      service: template.service,
+      data: {
+        entity_id: entityId,
+        ...renderRoomTemplateData(template.data ?? {}, segments),
+      },
+    });
+  }
+  return calls;
+}
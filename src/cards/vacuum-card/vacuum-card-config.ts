@@ -1,4 +1,16 @@
-import { array, assign, boolean, object, optional, string } from "superstruct";
+import {
+  any,
+  array,
+  assign,
+  boolean,
+  enums,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  union,
+} from "superstruct";
 import { LovelaceCardConfig } from "../../ha";
 import {
   ActionsSharedConfig,
@@ -6,13 +18,14 @@ import {
 } from "../../shared/config/actions-config";
 import {
   AppearanceSharedConfig,
-  appearanceSharedConfigStruct,
+  computeAppearanceConfigStruct,
 } from "../../shared/config/appearance-config";
 import {
   EntitySharedConfig,
   entitySharedConfigStruct,
 } from "../../shared/config/entity-config";
 import { lovelaceCardConfigStruct } from "../../shared/config/lovelace-card-config";
+import { INFOS } from "../../utils/info";
 
 export const VACUUM_COMMANDS = [
   "on_off",
@@ -25,23 +38,68 @@ export const VACUUM_COMMANDS = [
 
 export type VacuumCommand = (typeof VACUUM_COMMANDS)[number];
 
+export const VACUUM_ROOM_COMMANDS = [
+  "roborock",
+  "valetudo",
+  "ecovacs",
+] as const;
+
+export type VacuumRoomCommandPreset = (typeof VACUUM_ROOM_COMMANDS)[number];
+
+export type VacuumServiceCall = {
+  service: string;
+  data?: Record<string, any>;
+};
+
+export type VacuumRoom = {
+  name: string;
+  icon?: string;
+  segments?: (string | number)[];
+  service?: string;
+  service_data?: Record<string, any>;
+};
+
 export type VacuumCardConfig = LovelaceCardConfig &
   EntitySharedConfig &
   AppearanceSharedConfig &
   ActionsSharedConfig & {
     icon_animation?: boolean;
     commands?: VacuumCommand[];
+    show_fan_speed_control?: boolean;
+    show_battery_badge?: boolean;
+    rooms?: VacuumRoom[];
+    room_command?: VacuumRoomCommandPreset | VacuumServiceCall;
   };
 
+const vacuumRoomStruct = object({
+  name: string(),
+  icon: optional(string()),
+  segments: optional(array(union([string(), number()]))),
+  service: optional(string()),
+  service_data: optional(record(string(), any())),
+});
+
 export const vacuumCardConfigStruct = assign(
   lovelaceCardConfigStruct,
   assign(
     entitySharedConfigStruct,
-    appearanceSharedConfigStruct,
+    computeAppearanceConfigStruct([...INFOS, "status", "battery"]),
     actionsSharedConfigStruct
   ),
   object({
     icon_animation: optional(boolean()),
     commands: optional(array(string())),
+    show_fan_speed_control: optional(boolean()),
+    show_battery_badge: optional(boolean()),
+    rooms: optional(array(vacuumRoomStruct)),
+    room_command: optional(
+      union([
+        enums(VACUUM_ROOM_COMMANDS),
+        object({
+          service: string(),
+          data: optional(record(string(), any())),
+        }),
+      ])
+    ),
   })
 );
@@ -5,22 +5,34 @@ import { assert } from "superstruct";
 import { LocalizeFunc, LovelaceCardEditor, fireEvent } from "../../ha";
 import setupCustomlocalize from "../../localize";
 import { computeActionsFormSchema } from "../../shared/config/actions-config";
-import { APPEARANCE_FORM_SCHEMA } from "../../shared/config/appearance-config";
+import { computeAppearanceFormSchema } from "../../shared/config/appearance-config";
 import { MushroomBaseElement } from "../../utils/base-element";
 import { GENERIC_LABELS } from "../../utils/form/generic-fields";
 import { HaFormSchema } from "../../utils/form/ha-form";
+import { INFOS } from "../../utils/info";
 import { loadHaComponents } from "../../utils/loader";
 import { VACUUM_CARD_EDITOR_NAME, VACUUM_ENTITY_DOMAINS } from "./const";
 import {
   VACUUM_COMMANDS,
   VacuumCardConfig,
+  VACUUM_ROOM_COMMANDS,
   vacuumCardConfigStruct,
 } from "./vacuum-card-config";
 
-const VACUUM_LABELS = ["commands"];
+const VACUUM_LABELS = [
+  "commands",
+  "show_fan_speed_control",
+  "show_battery_badge",
+  "rooms",
+  "room_command",
+];
 
 const computeSchema = memoizeOne(
-  (localize: LocalizeFunc, customLocalize: LocalizeFunc): HaFormSchema[] => [
+  (
+    localize: LocalizeFunc,
+    customLocalize: LocalizeFunc,
+    customRoomCommand: boolean
+  ): HaFormSchema[] => [
     { name: "entity", selector: { entity: { domain: VACUUM_ENTITY_DOMAINS } } },
     { name: "name", selector: { text: {} } },
     {
@@ -35,7 +47,15 @@ const computeSchema = memoizeOne(
         { name: "icon_animation", selector: { boolean: {} } },
       ],
     },
-    ...APPEARANCE_FORM_SCHEMA,
+    ...computeAppearanceFormSchema([...INFOS, "status", "battery"]),
+    {
+      type: "grid",
+      name: "",
+      schema: [
+        { name: "show_fan_speed_control", selector: { boolean: {} } },
+        { name: "show_battery_badge", selector: { boolean: {} } },
+      ],
+    },
     {
       name: "commands",
       selector: {
@@ -52,6 +72,24 @@ const computeSchema = memoizeOne(
         },
       },
     },
+    { name: "rooms", selector: { object: {} } },
+    // A custom service call can't be picked from the presets, edit it as yaml
+    customRoomCommand
+      ? { name: "room_command", selector: { object: {} } }
+      : {
+          name: "room_command",
+          selector: {
+            select: {
+              options: VACUUM_ROOM_COMMANDS.map((command) => ({
+                value: command,
+                label: customLocalize(
+                  `editor.card.vacuum.room_command_list.${command}`
+                ),
+              })),
+              mode: "dropdown",
+            },
+          },
+        },
     ...computeActionsFormSchema(),
   ]
 );
@@ -93,7 +131,11 @@ export class VacuumCardEditor
     }
 
     const customLocalize = setupCustomlocalize(this.hass!);
-    const schema = computeSchema(this.hass!.localize, customLocalize);
+    const schema = computeSchema(
+      this.hass!.localize,
+      customLocalize,
+      typeof this._config.room_command === "object"
+    );
 
     return html`
       <ha-form
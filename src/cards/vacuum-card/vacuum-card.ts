@@ -1,5 +1,12 @@
 import { HassEntity } from "home-assistant-js-websocket";
-import { css, CSSResultGroup, html, nothing, TemplateResult } from "lit";
+import {
+  css,
+  CSSResultGroup,
+  html,
+  nothing,
+  PropertyValues,
+  TemplateResult,
+} from "lit";
 import { customElement, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { styleMap } from "lit/directives/style-map.js";
@@ -11,11 +18,13 @@ import {
   hasAction,
   HomeAssistant,
   isActive,
+  isAvailable,
   LovelaceCard,
   LovelaceCardEditor,
   VacuumEntity,
 } from "../../ha";
 import "../../shared/badge-icon";
+import "../../shared/button";
 import "../../shared/card";
 import "../../shared/shape-icon";
 import "../../shared/state-info";
@@ -25,6 +34,7 @@ import { MushroomBaseCard } from "../../utils/base-card";
 import { cardStyle } from "../../utils/card-styles";
 import { registerCustomCard } from "../../utils/custom-cards";
 import { computeEntityPicture } from "../../utils/info";
+import { Layout } from "../../utils/layout";
 import {
   VACUUM_CARD_EDITOR_NAME,
   VACUUM_CARD_NAME,
@@ -35,9 +45,29 @@ import {
   isCommandsControlSupported,
   isCommandsControlVisible,
 } from "./controls/vacuum-commands-control";
-import { isCleaning, isReturningHome } from "./utils";
+import "./controls/vacuum-fan-speed-control";
+import { isFanSpeedVisible } from "./controls/vacuum-fan-speed-control";
+import "./controls/vacuum-rooms-control";
+import { isRoomsControlVisible } from "./controls/vacuum-rooms-control";
+import {
+  getBatteryColor,
+  getBatteryIcon,
+  isCleaning,
+  isReturningHome,
+} from "./utils";
 import { VacuumCardConfig } from "./vacuum-card-config";
 
+type VacuumCardControl =
+  | "commands_control"
+  | "fan_speed_control"
+  | "rooms_control";
+
+const CONTROLS_ICONS: Record<VacuumCardControl, string> = {
+  commands_control: "mdi:robot-vacuum",
+  fan_speed_control: "mdi:fan",
+  rooms_control: "mdi:floor-plan",
+};
+
 registerCustomCard({
   type: VACUUM_CARD_NAME,
   name: "Mushroom Vacuum Card",
@@ -69,14 +99,61 @@ export class VacuumCard
     };
   }
 
+  @state() private _activeControl?: VacuumCardControl;
+
+  private get _controls(): VacuumCardControl[] {
+    if (!this._config || !this._stateObj) return [];
+
+    const stateObj = this._stateObj;
+    const controls: VacuumCardControl[] = [];
+    if (isCommandsControlVisible(stateObj, this._config.commands ?? [])) {
+      controls.push("commands_control");
+    }
+    if (this._config.show_fan_speed_control && isFanSpeedVisible(stateObj)) {
+      controls.push("fan_speed_control");
+    }
+    if (isRoomsControlVisible(this._config.rooms)) {
+      controls.push("rooms_control");
+    }
+    return controls;
+  }
+
   protected get hasControls() {
     if (!this._stateObj || !this._config) return false;
-    return isCommandsControlSupported(
-      this._stateObj,
-      this._config.commands ?? []
+    return (
+      isCommandsControlSupported(this._stateObj, this._config.commands ?? []) ||
+      (Boolean(this._config.show_fan_speed_control) &&
+        isFanSpeedVisible(this._stateObj)) ||
+      isRoomsControlVisible(this._config.rooms)
     );
   }
 
+  _onControlTap(ctrl, e): void {
+    e.stopPropagation();
+    this._activeControl = ctrl;
+  }
+
+  updateActiveControl() {
+    const isActiveControlSupported = this._activeControl
+      ? this._controls.includes(this._activeControl)
+      : false;
+    this._activeControl = isActiveControlSupported
+      ? this._activeControl
+      : this._controls[0];
+  }
+
+  setConfig(config: VacuumCardConfig): void {
+    super.setConfig(config);
+    this.updateActiveControl();
+  }
+
+  protected updated(changedProperties: PropertyValues) {
+    super.updated(changedProperties);
+    if (this.hass && changedProperties.has("hass")) {
+      this.updateActiveControl();
+    }
+  }
+
   private _handleAction(ev: ActionHandlerEvent) {
     handleAction(this, this.hass!, this._config!, ev.detail.action!);
   }
@@ -99,8 +176,6 @@ export class VacuumCard
 
     const rtl = computeRTL(this.hass);
 
-    const commands = this._config?.commands ?? [];
-
     return html`
       <ha-card
         class=${classMap({ "fill-container": appearance.fill_container })}
@@ -121,16 +196,11 @@ export class VacuumCard
             ${this.renderBadge(stateObj)}
             ${this.renderStateInfo(stateObj, appearance, name)};
           </mushroom-state-item>
-          ${isCommandsControlVisible(stateObj, commands)
+          ${this._controls.length > 0
             ? html`
                 <div class="actions" ?rtl=${rtl}>
-                  <mushroom-vacuum-commands-control
-                    .hass=${this.hass}
-                    .entity=${stateObj}
-                    .commands=${commands}
-                    .fill=${appearance.layout !== "horizontal"}
-                  >
-                  </mushroom-vacuum-commands-control>
+                  ${this.renderActiveControl(stateObj, appearance.layout)}
+                  ${this.renderOtherControls()}
                 </div>
               `
             : nothing}
@@ -139,6 +209,76 @@ export class VacuumCard
     `;
   }
 
+  private renderOtherControls(): TemplateResult | null {
+    const otherControls = this._controls.filter(
+      (control) => control != this._activeControl
+    );
+
+    return html`
+      ${otherControls.map(
+        (ctrl) => html`
+          <mushroom-button @click=${(e) => this._onControlTap(ctrl, e)}>
+            <ha-icon .icon=${CONTROLS_ICONS[ctrl]}></ha-icon>
+          </mushroom-button>
+        `
+      )}
+    `;
+  }
+
+  private renderActiveControl(entity: VacuumEntity, layout: Layout) {
+    switch (this._activeControl) {
+      case "commands_control":
+        return html`
+          <mushroom-vacuum-commands-control
+            .hass=${this.hass}
+            .entity=${entity}
+            .commands=${this._config?.commands ?? []}
+            .fill=${layout !== "horizontal"}
+          >
+          </mushroom-vacuum-commands-control>
+        `;
+      case "fan_speed_control":
+        return html`
+          <mushroom-vacuum-fan-speed-control
+            .hass=${this.hass}
+            .entity=${entity}
+          ></mushroom-vacuum-fan-speed-control>
+        `;
+      case "rooms_control":
+        return html`
+          <mushroom-vacuum-rooms-control
+            .hass=${this.hass}
+            .entity=${entity}
+            .rooms=${this._config?.rooms ?? []}
+            .command=${this._config?.room_command}
+          ></mushroom-vacuum-rooms-control>
+        `;
+      default:
+        return nothing;
+    }
+  }
+
+  renderBadge(stateObj: VacuumEntity) {
+    const level = stateObj.attributes.battery_level;
+    if (
+      !isAvailable(stateObj) ||
+      !this._config?.show_battery_badge ||
+      level == null
+    ) {
+      return super.renderBadge(stateObj);
+    }
+    const charging = stateObj.state === "docked" && level < 100;
+    return html`
+      <mushroom-badge-icon
+        slot="badge"
+        .icon=${getBatteryIcon(level, charging)}
+        style=${styleMap({
+          "--main-color": `rgb(${getBatteryColor(level)})`,
+        })}
+      ></mushroom-badge-icon>
+    `;
+  }
+
   protected renderIcon(stateObj: HassEntity, icon?: string): TemplateResult {
     return html`
       <mushroom-shape-icon
@@ -179,7 +319,9 @@ export class VacuumCard
         .cleaning ha-state-icon {
           animation: 2s infinite linear returning;
         }
-        mushroom-vacuum-commands-control {
+        mushroom-vacuum-commands-control,
+        mushroom-vacuum-fan-speed-control,
+        mushroom-vacuum-rooms-control {
           flex: 1;
         }
       `,
@@ -0,0 +1,81 @@
+import { clamp } from "../number/clamp";
+
+const temperatureRed = (temperature: number): number => {
+  if (temperature <= 66) {
+    return 255;
+  }
+  const red = 329.698727446 * (temperature - 60) ** -0.1332047592;
+  return clamp(red, 0, 255);
+};
+
+const temperatureGreen = (temperature: number): number => {
+  let green: number;
+  if (temperature <= 66) {
+    green = 99.4708025861 * Math.log(temperature) - 161.1195681661;
+  } else {
+    green = 288.1221695283 * (temperature - 60) ** -0.0755148492;
+  }
+  return clamp(green, 0, 255);
+};
+
+const temperatureBlue = (temperature: number): number => {
+  if (temperature >= 66) {
+    return 255;
+  }
+  if (temperature <= 19) {
+    return 0;
+  }
+  const blue = 138.5177312231 * Math.log(temperature - 10) - 305.0447927307;
+  return clamp(blue, 0, 255);
+};
+
+export const temperature2rgb = (
+  temperature: number
+): [number, number, number] => {
+  const value = temperature / 100;
+  return [
+    temperatureRed(value),
+    temperatureGreen(value),
+    temperatureBlue(value),
+  ];
+};
+
+const matchMaxScale = (
+  inputColors: number[],
+  outputColors: number[]
+): [number, number, number] => {
+  const maxIn = Math.max(...inputColors);
+  const maxOut = Math.max(...outputColors);
+  const factor = maxOut === 0 ? 0 : maxIn / maxOut;
+  return outputColors.map((value) => Math.round(value * factor)) as [
+    number,
+    number,
+    number,
+  ];
+};
+
+export const rgbw2rgb = (
+  rgbw: [number, number, number, number]
+): [number, number, number] => {
+  const [r, g, b, w] = rgbw;
+  return matchMaxScale(rgbw, [r + w, g + w, b + w]);
+};
+
+export const rgbww2rgb = (
+  rgbww: [number, number, number, number, number],
+  minKelvin = 2000,
+  maxKelvin = 6535
+): [number, number, number] => {
+  const [r, g, b, cw, ww] = rgbww;
+  const maxMireds = 1000000 / minKelvin;
+  const minMireds = 1000000 / maxKelvin;
+  const ctRatio = cw + ww === 0 ? 0.5 : ww / (cw + ww);
+  const colorTempMired = minMireds + ctRatio * (maxMireds - minMireds);
+  const [wR, wG, wB] = temperature2rgb(1000000 / colorTempMired);
+  const whiteLevel = Math.max(cw, ww) / 255;
+  return matchMaxScale(rgbww, [
+    r + wR * whiteLevel,
+    g + wG * whiteLevel,
+    b + wB * whiteLevel,
+  ]);
+};
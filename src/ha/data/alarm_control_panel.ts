@@ -70,6 +70,8 @@ export const ALARM_MODES: Record<AlarmMode, AlarmConfig> = {
   },
 };
 
+export const CODE_DIALOG_CLOSED = "Code dialog closed";
+
 export const setProtectedAlarmControlPanelMode = async (
   element: HTMLElement,
   hass: HomeAssistant,
@@ -105,7 +107,7 @@ export const setProtectedAlarmControlPanelMode = async (
         ),
       });
       if (response == null) {
-        throw new Error("Code dialog closed");
+        throw new Error(CODE_DIALOG_CLOSED);
       }
       code = response;
     }
@@ -13,16 +13,22 @@ export const COVER_SUPPORT_CLOSE_TILT = 32;
 export const COVER_SUPPORT_STOP_TILT = 64;
 export const COVER_SUPPORT_SET_TILT_POSITION = 128;
 
-export function isFullyOpen(stateObj: CoverEntity) {
-  if (stateObj.attributes.current_position !== undefined) {
-    return stateObj.attributes.current_position === 100;
+export function isFullyOpen(
+  stateObj: CoverEntity,
+  position: number | undefined = stateObj.attributes.current_position
+) {
+  if (position !== undefined) {
+    return position === 100;
   }
   return stateObj.state === "open";
 }
 
-export function isFullyClosed(stateObj: CoverEntity) {
-  if (stateObj.attributes.current_position !== undefined) {
-    return stateObj.attributes.current_position === 0;
+export function isFullyClosed(
+  stateObj: CoverEntity,
+  position: number | undefined = stateObj.attributes.current_position
+) {
+  if (position !== undefined) {
+    return position === 0;
   }
   return stateObj.state === "closed";
 }
@@ -3,7 +3,7 @@ import {
   HassEntityBase,
 } from "home-assistant-js-websocket";
 
-export type HumidifierAction = "off" | "humidifying" | "dehumidifying" | "idle";
+export type HumidifierAction = "off" | "humidifying" | "drying" | "idle";
 
 export type HumidifierEntity = HassEntityBase & {
   attributes: HassEntityAttributeBase & {
@@ -87,6 +87,7 @@ interface LightEntityAttributes extends HassEntityAttributeBase {
   effect_list?: string[] | null;
   supported_color_modes?: LightColorMode[];
   color_mode?: LightColorMode;
+  entity_id?: string[];
 }
 
 export interface LightEntity extends HassEntityBase {
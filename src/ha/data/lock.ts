@@ -2,6 +2,9 @@ import {
   HassEntityAttributeBase,
   HassEntityBase,
 } from "home-assistant-js-websocket";
+import { HomeAssistant } from "../types";
+import { CODE_DIALOG_CLOSED } from "./alarm_control_panel";
+import { getExtendedEntityRegistryEntry } from "./entity_registry";
 
 interface LockEntityAttributes extends HassEntityAttributeBase {
   changed_by?: string;
@@ -21,6 +24,8 @@ export type LOCK_STATES =
   | typeof LOCK_STATE_JAMMED
   | typeof LOCK_STATE_LOCKED
   | typeof LOCK_STATE_LOCKING
+  | typeof LOCK_STATE_OPEN
+  | typeof LOCK_STATE_OPENING
   | typeof LOCK_STATE_UNLOCKED
   | typeof LOCK_STATE_UNLOCKING;
 
@@ -32,6 +37,8 @@ export interface LockEntity extends HassEntityBase {
 export const LOCK_STATE_JAMMED = "jammed";
 export const LOCK_STATE_LOCKED = "locked";
 export const LOCK_STATE_LOCKING = "locking";
+export const LOCK_STATE_OPEN = "open";
+export const LOCK_STATE_OPENING = "opening";
 export const LOCK_STATE_UNLOCKED = "unlocked";
 export const LOCK_STATE_UNLOCKING = "unlocking";
 
@@ -40,3 +47,40 @@ export const LOCK_SUPPORT_OPEN = 1;
 export const LOCK_SERVICE_LOCK = "lock";
 export const LOCK_SERVICE_OPEN = "open";
 export const LOCK_SERVICE_UNLOCK = "unlock";
+
+export const callProtectedLockService = async (
+  element: HTMLElement,
+  hass: HomeAssistant,
+  stateObj: LockEntity,
+  service: LockCommand
+) => {
+  let code: string | undefined;
+
+  if (stateObj.attributes.code_format) {
+    const entry = await getExtendedEntityRegistryEntry(
+      hass,
+      stateObj.entity_id
+    ).catch(() => undefined);
+    const defaultCode = entry?.options?.lock?.default_code;
+
+    if (!defaultCode) {
+      const helpers = await (window as any).loadCardHelpers();
+
+      const response = await helpers.showEnterCodeDialog(element, {
+        codeFormat: "text",
+        codePattern: stateObj.attributes.code_format,
+        title: hass.localize(`ui.card.lock.${service}`),
+        submitText: hass.localize(`ui.card.lock.${service}`),
+      });
+      if (response == null) {
+        throw new Error(CODE_DIALOG_CLOSED);
+      }
+      code = response;
+    }
+  }
+
+  await hass.callService("lock", service, {
+    entity_id: stateObj.entity_id,
+    code,
+  });
+};
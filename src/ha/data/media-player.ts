@@ -27,6 +27,7 @@ interface MediaPlayerEntityAttributes extends HassEntityAttributeBase {
   source_list?: string[];
   sound_mode?: string;
   sound_mode_list?: string[];
+  group_members?: string[];
 }
 
 export interface MediaPlayerEntity extends HassEntityBase {
@@ -58,6 +59,7 @@ export const MEDIA_PLAYER_SUPPORT_REPEAT_SET = 262144;
 export const MEDIA_PLAYER_SUPPORT_SELECT_SOUND_MODE = 65536;
 export const MEDIA_PLAYER_SUPPORT_SHUFFLE_SET = 32768;
 export const MEDIA_PLAYER_SUPPORT_BROWSE_MEDIA = 131072;
+export const MEDIA_PLAYER_SUPPORT_GROUPING = 524288;
 
 export type MediaPlayerBrowseAction = "pick" | "play";
 
@@ -17,6 +17,8 @@ export const VACUUM_SUPPORT_TURN_OFF = 2;
 export const VACUUM_SUPPORT_PAUSE = 4;
 export const VACUUM_SUPPORT_STOP = 8;
 export const VACUUM_SUPPORT_RETURN_HOME = 16;
+export const VACUUM_SUPPORT_FAN_SPEED = 32;
+export const VACUUM_SUPPORT_BATTERY = 64;
 export const VACUUM_SUPPORT_STATUS = 128;
 export const VACUUM_SUPPORT_LOCATE = 512;
 export const VACUUM_SUPPORT_CLEAN_SPOT = 1024;
@@ -27,6 +29,8 @@ export const VACUUM_SUPPORT_START = 8192;
 interface VacuumEntityAttributes extends HassEntityAttributeBase {
   battery_level: number;
   fan_speed: any;
+  fan_speed_list?: string[];
+  status?: string;
   [key: string]: any;
 }
 
@@ -17,6 +17,7 @@ export * from "./data/climate";
 export * from "./data/cover";
 export * from "./data/entity";
 export * from "./data/fan";
+export * from "./data/history";
 export * from "./data/humidifier";
 export * from "./data/light";
 export * from "./data/lock";
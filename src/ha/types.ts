@@ -87,6 +87,7 @@ export interface AreaRegistryEntry {
   area_id: string;
   name: string;
   picture: string | null;
+  icon?: string | null;
 }
 
 export interface ThemeSettings {
@@ -1,17 +1,29 @@
-import { boolean, enums, Infer, object, optional } from "superstruct";
+import { boolean, enums, object, optional } from "superstruct";
 import { HaFormSchema } from "../../utils/form/ha-form";
 import { IconType, ICON_TYPES, Info, INFOS } from "../../utils/info";
 import { Layout, layoutStruct } from "../../utils/layout";
 
-export const appearanceSharedConfigStruct = object({
-  layout: optional(layoutStruct),
-  fill_container: optional(boolean()),
-  primary_info: optional(enums(INFOS)),
-  secondary_info: optional(enums(INFOS)),
-  icon_type: optional(enums(ICON_TYPES)),
-});
+export const computeAppearanceConfigStruct = (
+  infos: readonly Info[] = INFOS,
+  iconTypes: readonly IconType[] = ICON_TYPES
+) =>
+  object({
+    layout: optional(layoutStruct),
+    fill_container: optional(boolean()),
+    primary_info: optional(enums([...infos])),
+    secondary_info: optional(enums([...infos])),
+    icon_type: optional(enums([...iconTypes])),
+  });
 
-export type AppearanceSharedConfig = Infer<typeof appearanceSharedConfigStruct>;
+export const appearanceSharedConfigStruct = computeAppearanceConfigStruct();
+
+export type AppearanceSharedConfig = {
+  layout?: Layout;
+  fill_container?: boolean;
+  primary_info?: Info;
+  secondary_info?: Info;
+  icon_type?: IconType;
+};
 
 export type Appearance = {
   layout: Layout;
@@ -21,7 +33,10 @@ export type Appearance = {
   icon_type: IconType;
 };
 
-export const APPEARANCE_FORM_SCHEMA: HaFormSchema[] = [
+export const computeAppearanceFormSchema = (
+  infos?: Info[],
+  iconTypes?: IconType[]
+): HaFormSchema[] => [
   {
     type: "grid",
     name: "",
@@ -34,9 +49,14 @@ export const APPEARANCE_FORM_SCHEMA: HaFormSchema[] = [
     type: "grid",
     name: "",
     schema: [
-      { name: "primary_info", selector: { mush_info: {} } },
-      { name: "secondary_info", selector: { mush_info: {} } },
-      { name: "icon_type", selector: { mush_icon_type: {} } },
+      { name: "primary_info", selector: { mush_info: { infos } } },
+      { name: "secondary_info", selector: { mush_info: { infos } } },
+      {
+        name: "icon_type",
+        selector: { mush_icon_type: { icon_types: iconTypes } },
+      },
     ],
   },
 ];
+
+export const APPEARANCE_FORM_SCHEMA = computeAppearanceFormSchema();
@@ -2,7 +2,7 @@ import { css, CSSResultGroup, html, LitElement } from "lit";
 import { customElement, property } from "lit/decorators.js";
 import { HomeAssistant } from "../../ha";
 import setupCustomlocalize from "../../localize";
-import { ICON_TYPES } from "../../utils/info";
+import { ICON_TYPES, IconType } from "../../utils/info";
 import "../form/mushroom-select";
 
 @customElement("mushroom-icon-type-picker")
@@ -15,6 +15,8 @@ export class IconTypePicker extends LitElement {
 
   @property() public hass!: HomeAssistant;
 
+  @property() public iconTypes?: IconType[];
+
   _selectChanged(ev) {
     const value = ev.target.value;
     if (value) {
@@ -44,7 +46,7 @@ export class IconTypePicker extends LitElement {
         <mwc-list-item value="default">
           ${customLocalize("editor.form.icon_type_picker.values.default")}
         </mwc-list-item>
-        ${ICON_TYPES.map((iconType) => {
+        ${(this.iconTypes ?? ICON_TYPES).map((iconType) => {
           return html`
             <mwc-list-item .value=${iconType}>
               ${customLocalize(
@@ -80,6 +80,9 @@ class MushroomTextField extends TextFieldBase {
       .mdc-text-field {
         overflow: var(--text-field-overflow);
       }
+      .mdc-text-field--filled {
+        height: var(--text-field-height, 56px);
+      }
     `,
   ];
 }
@@ -21,6 +21,7 @@ export class ShapePicture extends LitElement {
         --icon-color-disabled: rgb(var(--rgb-disabled));
         --shape-color: rgba(var(--rgb-primary-text-color), 0.05);
         --shape-color-disabled: rgba(var(--rgb-disabled), 0.2);
+        --shape-outline-color: transparent;
         flex: none;
       }
       .container {
@@ -36,6 +37,8 @@ export class ShapePicture extends LitElement {
         width: 100%;
         height: 100%;
         border-radius: var(--icon-border-radius);
+        box-shadow: 0 0 0 1px var(--shape-outline-color);
+        transition: box-shadow 280ms ease-out;
       }
     `;
   }
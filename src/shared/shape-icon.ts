@@ -1,4 +1,11 @@
-import { css, CSSResultGroup, html, LitElement, TemplateResult } from "lit";
+import {
+  css,
+  CSSResultGroup,
+  html,
+  LitElement,
+  nothing,
+  TemplateResult,
+} from "lit";
 import { property, customElement } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
 import { animations } from "../utils/entity-styles";
@@ -7,6 +14,9 @@ import { animations } from "../utils/entity-styles";
 export class ShapeIcon extends LitElement {
   @property({ type: Boolean }) public disabled?: boolean;
 
+  // Percentage drawn as a ring around the shape, hidden when undefined
+  @property({ type: Number }) public progress?: number;
+
   protected render(): TemplateResult {
     return html`
       <div
@@ -16,6 +26,19 @@ export class ShapeIcon extends LitElement {
         })}
       >
         <slot></slot>
+        ${this.progress != null
+          ? html`
+              <svg class="progress" viewBox="0 0 40 40">
+                <circle
+                  cx="20"
+                  cy="20"
+                  r="19"
+                  pathLength="100"
+                  stroke-dasharray="${this.progress} 100"
+                ></circle>
+              </svg>
+            `
+          : nothing}
       </div>
     `;
   }
@@ -62,6 +85,22 @@ export class ShapeIcon extends LitElement {
           line-height: 0;
           --mdc-icon-size: var(--icon-symbol-size);
         }
+        .progress {
+          position: absolute;
+          top: -4px;
+          left: -4px;
+          width: calc(100% + 8px);
+          height: calc(100% + 8px);
+          transform: rotate(-90deg);
+          pointer-events: none;
+        }
+        .progress circle {
+          fill: none;
+          stroke: var(--icon-color);
+          stroke-width: 2;
+          stroke-linecap: round;
+          transition: stroke-dasharray 1s linear;
+        }
         .shape.disabled {
           background-color: var(--shape-color-disabled);
         }
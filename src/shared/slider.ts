@@ -20,6 +20,10 @@ const getPercentageFromEvent = (e: HammerInput) => {
 };
 
 export const DEFAULT_SLIDER_THRESHOLD = 10;
+
+// Above this number of steps, ticks would be too close to be readable
+const MAX_TICKS = 20;
+
 const getSliderThreshold = (element: any): number | undefined => {
   const thresholdValue = window
     .getComputedStyle(element)
@@ -40,6 +44,9 @@ export class SliderItem extends LitElement {
   @property({ type: Boolean, attribute: "show-indicator" })
   public showIndicator?: boolean;
 
+  @property({ type: Boolean, attribute: "show-ticks" })
+  public showTicks?: boolean;
+
   @property({ attribute: false, type: Number, reflect: true })
   public value?: number;
 
@@ -188,6 +195,7 @@ export class SliderItem extends LitElement {
           ${this.showActive
             ? html`<div class="slider-track-active"></div>`
             : nothing}
+          ${this.showTicks ? this.renderTicks() : nothing}
           ${this.showIndicator
             ? html`<div class="slider-track-indicator"></div>`
             : nothing}
@@ -196,6 +204,27 @@ export class SliderItem extends LitElement {
     `;
   }
 
+  private renderTicks() {
+    const count = Math.round((this.max - this.min) / this.step);
+    if (!(count > 1) || count > MAX_TICKS) return nothing;
+
+    return html`
+      <div class="slider-ticks">
+        ${Array.from({ length: count - 1 }, (_, index) => {
+          const value = this.min + (index + 1) * this.step;
+          return html`
+            <div
+              class="slider-tick"
+              style=${styleMap({
+                left: `${this.valueToPercentage(value) * 100}%`,
+              })}
+            ></div>
+          `;
+        })}
+      </div>
+    `;
+  }
+
   static get styles(): CSSResultGroup {
     return css`
       :host {
@@ -242,6 +271,26 @@ export class SliderItem extends LitElement {
         background-color: var(--main-color);
         transition: transform 180ms ease-in-out;
       }
+      .slider .slider-ticks {
+        position: absolute;
+        top: 0;
+        left: 0;
+        height: 100%;
+        width: 100%;
+      }
+      .slider .slider-tick {
+        position: absolute;
+        top: 50%;
+        width: 2px;
+        height: 6px;
+        margin-left: -1px;
+        margin-top: -3px;
+        border-radius: 1px;
+        background-color: var(
+          --tick-color,
+          rgba(var(--rgb-primary-text-color), 0.3)
+        );
+      }
       .slider .slider-track-indicator {
         position: absolute;
         top: 0;
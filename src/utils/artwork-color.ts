@@ -0,0 +1,99 @@
+import { CacheManager } from "./cache-manager";
+
+const SAMPLE_SIZE = 32;
+
+// Buckets of 16 values per channel, precise enough to group similar pixels
+const BUCKET_SHIFT = 4;
+
+// Pictures change with the media, forget them after a while
+const artworkColorCache = new CacheManager<Promise<string | undefined>>(
+  10 * 60 * 1000
+);
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = reject;
+    image.src = url;
+  });
+}
+
+/**
+ * Most frequent color of the picture, ignoring transparent and nearly grey
+ * pixels so backgrounds and borders don't win over the artwork itself.
+ */
+function computeDominantColor(data: Uint8ClampedArray): string | undefined {
+  const buckets = new Map<number, { count: number; rgb: number[] }>();
+
+  for (let i = 0; i < data.length; i += 4) {
+    const [r, g, b, a] = [data[i], data[i + 1], data[i + 2], data[i + 3]];
+    if (a < 128) continue;
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    if (max < 24 || min > 232 || max - min < 16) continue;
+
+    const key =
+      ((r >> BUCKET_SHIFT) << 8) |
+      ((g >> BUCKET_SHIFT) << 4) |
+      (b >> BUCKET_SHIFT);
+    const bucket = buckets.get(key) ?? { count: 0, rgb: [0, 0, 0] };
+    bucket.count += 1;
+    bucket.rgb[0] += r;
+    bucket.rgb[1] += g;
+    bucket.rgb[2] += b;
+    buckets.set(key, bucket);
+  }
+
+  let dominant: { count: number; rgb: number[] } | undefined;
+  buckets.forEach((bucket) => {
+    if (!dominant || bucket.count > dominant.count) {
+      dominant = bucket;
+    }
+  });
+
+  if (!dominant) return undefined;
+  const count = dominant.count;
+  return dominant.rgb.map((value) => Math.round(value / count)).join(", ");
+}
+
+async function extractArtworkColor(url: string): Promise<string | undefined> {
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement("canvas");
+    canvas.width = SAMPLE_SIZE;
+    canvas.height = SAMPLE_SIZE;
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+    if (!context) return undefined;
+    context.drawImage(image, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+    const { data } = context.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+    return computeDominantColor(data);
+  } catch (_err) {
+    // Unreachable or cross origin pictures can't be read
+    return undefined;
+  }
+}
+
+/**
+ * Dominant color of a picture as an `r, g, b` string, computed once per url.
+ */
+export function getArtworkColor(url: string): Promise<string | undefined> {
+  if (!artworkColorCache.has(url)) {
+    artworkColorCache.set(url, extractArtworkColor(url));
+  }
+  return artworkColorCache.get(url)!;
+}
+
+export function computeArtworkColorStyle(
+  color?: string
+): Record<string, string> {
+  if (!color) return {};
+  return {
+    "--icon-color": `rgb(${color})`,
+    "--shape-color": `rgba(${color}, 0.2)`,
+    "--shape-outline-color": `rgb(${color})`,
+    "--slider-color": `rgb(${color})`,
+    "--slider-bg-color": `rgba(${color}, 0.2)`,
+  };
+}
@@ -2,6 +2,7 @@ import { HassEntity } from "home-assistant-js-websocket";
 import { html, nothing, TemplateResult } from "lit";
 import { property, state } from "lit/decorators.js";
 import { classMap } from "lit/directives/class-map.js";
+import { StyleInfo, styleMap } from "lit/directives/style-map.js";
 import {
   computeRTL,
   HomeAssistant,
@@ -52,6 +53,11 @@ export class MushroomBaseCard<
     return false;
   }
 
+  // Rows taken by content rendered below the controls
+  protected get extraRows(): number {
+    return 0;
+  }
+
   setConfig(config: T): void {
     this._config = {
       tap_action: {
@@ -81,7 +87,7 @@ export class MushroomBaseCard<
     ) {
       height += 1;
     }
-    return height;
+    return height + this.extraRows;
   }
 
   // For HA < 2024.11
@@ -146,6 +152,7 @@ export class MushroomBaseCard<
 
     // Ensure card has at least 1 row
     options.grid_rows = Math.max(options.grid_rows, 1);
+    options.grid_rows += this.extraRows;
 
     return options;
   }
@@ -214,22 +221,26 @@ export class MushroomBaseCard<
     }
 
     // Ensure card has at least 1 row
-    options.rows = Math.max(options.rows, 1);
+    options.rows = Math.max(options.rows, 1) + this.extraRows;
     options.min_rows = options.rows;
 
     return options;
   }
 
-  protected renderPicture(picture: string): TemplateResult {
+  protected renderPicture(picture: string, style?: StyleInfo): TemplateResult {
     return html`
       <mushroom-shape-avatar
         slot="icon"
+        style=${styleMap(style ?? {})}
         .picture_url=${(this.hass as any).hassUrl(picture)}
       ></mushroom-shape-avatar>
     `;
   }
 
-  protected renderNotFound(config: BaseConfig): TemplateResult {
+  protected renderNotFound(
+    config: BaseConfig,
+    secondary?: string
+  ): TemplateResult {
     const appearance = computeAppearance(config);
     const rtl = computeRTL(this.hass);
 
@@ -252,7 +263,7 @@ export class MushroomBaseCard<
             <mushroom-state-info
               slot="info"
               .primary=${config.entity}
-              .secondary=${customLocalize("card.not_found")}
+              .secondary=${secondary ?? customLocalize("card.not_found")}
             ></mushroom-state-info>
           </mushroom-state-item>
         </mushroom-card>
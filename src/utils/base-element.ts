@@ -1,5 +1,5 @@
 import { css, CSSResultGroup, LitElement, PropertyValues } from "lit";
-import { property } from "lit/decorators.js";
+import { property, state } from "lit/decorators.js";
 import { HomeAssistant } from "../ha";
 import "../shared/badge-icon";
 import "../shared/card";
@@ -8,6 +8,7 @@ import "../shared/shape-icon";
 import "../shared/state-info";
 import "../shared/state-item";
 import { animations } from "../utils/entity-styles";
+import { getArtworkColor } from "./artwork-color";
 import { defaultColorCss, defaultDarkColorCss } from "./colors";
 import { themeColorCss, themeVariables } from "./theme";
 
@@ -18,6 +19,23 @@ export function computeDarkMode(hass?: HomeAssistant): boolean {
 export class MushroomBaseElement extends LitElement {
   @property({ attribute: false }) public hass!: HomeAssistant;
 
+  @state() protected _artworkColor?: string;
+
+  private _artworkUrl?: string;
+
+  protected updateArtworkColor(picture?: string): void {
+    const url = picture ? (this.hass as any).hassUrl(picture) : undefined;
+    if (url === this._artworkUrl) return;
+    this._artworkUrl = url;
+    this._artworkColor = undefined;
+    if (!url) return;
+    getArtworkColor(url).then((color) => {
+      if (this._artworkUrl === url) {
+        this._artworkColor = color;
+      }
+    });
+  }
+
   protected updated(changedProps: PropertyValues): void {
     super.updated(changedProps);
     if (changedProps.has("hass") && this.hass) {
@@ -0,0 +1,187 @@
+import { css, svg, SVGTemplateResult } from "lit";
+import { styleMap } from "lit/directives/style-map.js";
+
+type CoverVisual = "blind" | "garage" | "curtain" | "awning";
+
+const garageDeviceClasses = new Set<string>(["garage", "gate", "door"]);
+
+const BLIND_SLATS = [0, 1, 2, 3, 4];
+
+const GARAGE_PANELS = [0, 1, 2, 3];
+
+const CURTAIN_FOLDS = [0, 1, 2];
+
+export const coverSVGStyles = css`
+  .cover-visual {
+    width: var(--icon-symbol-size);
+    height: var(--icon-symbol-size);
+  }
+  .cover-visual .frame {
+    fill: none;
+    stroke: currentColor;
+    stroke-width: 1.5;
+    stroke-linejoin: round;
+    stroke-linecap: round;
+  }
+  .cover-visual .part {
+    fill: currentColor;
+    transform-box: fill-box;
+    transition: transform 1s linear;
+  }
+  .cover-visual .slat {
+    fill: currentColor;
+    transform-box: fill-box;
+    transform-origin: center;
+    transition: transform 1s linear;
+  }
+  .cover-visual.moving .edge {
+    animation: cover-moving 1s ease-in-out infinite alternate;
+  }
+  @keyframes cover-moving {
+    0% {
+      opacity: 1;
+    }
+    100% {
+      opacity: 0.3;
+    }
+  }
+`;
+
+export function computeCoverVisual(deviceClass?: string): CoverVisual {
+  if (deviceClass && garageDeviceClasses.has(deviceClass)) return "garage";
+  if (deviceClass === "curtain") return "curtain";
+  if (deviceClass === "awning") return "awning";
+  return "blind";
+}
+
+// Slats are flat when the tilt is closed and thin when it is open
+const computeSlatScale = (tilt?: number) =>
+  tilt != null ? 1 - (tilt / 100) * 0.7 : 0.8;
+
+const renderBlind = (position: number, tilt?: number) => svg`
+  <defs>
+    <clipPath id="cover-blind-clip">
+      <rect x="4" y="4" width="16" height="16" />
+    </clipPath>
+  </defs>
+  <rect class="frame" x="3" y="3" width="18" height="18" rx="1" />
+  <g clip-path="url(#cover-blind-clip)">
+    <g
+      class="part"
+      style=${styleMap({ transform: `translateY(${-(position / 100) * 16}px)` })}
+    >
+      ${BLIND_SLATS.map(
+        (index) => svg`
+          <rect
+            class=${index === BLIND_SLATS.length - 1 ? "slat edge" : "slat"}
+            x="4"
+            y=${4 + index * 3.2}
+            width="16"
+            height="3.2"
+            style=${styleMap({ transform: `scaleY(${computeSlatScale(tilt)})` })}
+          />
+        `
+      )}
+    </g>
+  </g>
+`;
+
+const renderGarage = (position: number) => svg`
+  <defs>
+    <clipPath id="cover-garage-clip">
+      <rect x="5" y="10" width="14" height="11" />
+    </clipPath>
+  </defs>
+  <path class="frame" d="M2 21V9l10-6 10 6v12" />
+  <path class="frame" d="M5 21V10h14v11" />
+  <g clip-path="url(#cover-garage-clip)">
+    <g
+      class="part"
+      style=${styleMap({ transform: `translateY(${-(position / 100) * 11}px)` })}
+    >
+      ${GARAGE_PANELS.map(
+        (index) => svg`
+          <rect
+            class=${index === GARAGE_PANELS.length - 1 ? "edge" : ""}
+            x="5"
+            y=${10.4 + index * 2.75}
+            width="14"
+            height="2.2"
+            rx="0.4"
+          />
+        `
+      )}
+    </g>
+  </g>
+`;
+
+const renderCurtainPanel = (side: "left" | "right", position: number) => svg`
+  <g
+    class="part edge"
+    style=${styleMap({
+      transform: `scaleX(${1 - (position / 100) * 0.8})`,
+      "transform-origin": side,
+    })}
+  >
+    ${CURTAIN_FOLDS.map(
+      (index) => svg`
+        <rect
+          x=${(side === "left" ? 3 : 12) + index * 3}
+          y="4"
+          width="2.7"
+          height="17"
+          rx="0.6"
+        />
+      `
+    )}
+  </g>
+`;
+
+const renderCurtain = (position: number) => svg`
+  <path class="frame" d="M2 3h20" />
+  ${renderCurtainPanel("left", position)}
+  ${renderCurtainPanel("right", position)}
+`;
+
+const renderAwning = (position: number) => svg`
+  <path class="frame" d="M3 2v20" />
+  <g
+    class="part edge"
+    style=${styleMap({
+      transform: `scaleX(${Math.max(position, 10) / 100})`,
+      "transform-origin": "left",
+    })}
+  >
+    <path d="M3 4l18 6v2.5l-1.5 1.5-1.5-1.5-1.5 1.5-1.5-1.5-1.5 1.5-1.5-1.5L3 7z" />
+  </g>
+`;
+
+/**
+ * Drawing of the cover matching its device class. The position and tilt go
+ * from 0 (closed) to 100 (open), the moving part blinks while it moves.
+ */
+export const getCoverStateSVG = (
+  deviceClass: string | undefined,
+  position: number,
+  tilt?: number,
+  moving?: boolean
+): SVGTemplateResult => {
+  const visual = computeCoverVisual(deviceClass);
+  return svg`
+    <svg
+      class=${moving ? "cover-visual moving" : "cover-visual"}
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox="0 0 24 24"
+    >
+      ${
+        visual === "garage"
+          ? renderGarage(position)
+          : visual === "curtain"
+            ? renderCurtain(position)
+            : visual === "awning"
+              ? renderAwning(position)
+              : renderBlind(position, tilt)
+      }
+    </svg>
+  `;
+};
@@ -2,9 +2,12 @@ import { fireEvent, HomeAssistant } from "../../../ha";
 import { html, LitElement } from "lit";
 import { customElement, property } from "lit/decorators.js";
 import "../../../shared/editor/icon-type-picker";
+import { IconType } from "../../info";
 
 export type MushIconTypeSelector = {
-  mush_icon_type: {};
+  mush_icon_type: {
+    icon_types?: IconType[];
+  };
 };
 
 @customElement("ha-selector-mush_icon_type")
@@ -21,6 +24,7 @@ export class HaMushIconTypeSelector extends LitElement {
     return html`
       <mushroom-icon-type-picker
         .hass=${this.hass}
+        .iconTypes=${this.selector.mush_icon_type.icon_types}
         .label=${this.label}
         .value=${this.value}
         @value-changed=${this._valueChanged}
@@ -10,4 +10,5 @@ export const GENERIC_LABELS = [
   "use_entity_picture",
   "collapsible_controls",
   "icon_animation",
+  "artwork_color",
 ];
@@ -11,10 +11,25 @@ export const INFOS = [
   "last-updated",
   "none",
 ] as const;
-export type Info = (typeof INFOS)[number];
+
+// Infos only offered by the cards of the entities providing them
+export const ENTITY_INFOS = [
+  "effect",
+  "status",
+  "battery",
+  "current_humidity",
+] as const;
+
+export type Info = (typeof INFOS)[number] | (typeof ENTITY_INFOS)[number];
 
 export const ICON_TYPES = ["icon", "entity-picture", "none"] as const;
-export type IconType = (typeof ICON_TYPES)[number];
+
+// Icon types only offered by the cards able to draw them
+export const ENTITY_ICON_TYPES = ["visual"] as const;
+
+export type IconType =
+  | (typeof ICON_TYPES)[number]
+  | (typeof ENTITY_ICON_TYPES)[number];
 
 export function computeInfoDisplay(
   info: Info,
@@ -60,6 +75,22 @@ export function computeInfoDisplay(
           capitalize
         ></ha-relative-time>
       `;
+    case "effect":
+      return stateObj.attributes.effect
+        ? hass.formatEntityAttributeValue(stateObj, "effect")
+        : state;
+    case "status":
+      return stateObj.attributes.status
+        ? hass.formatEntityAttributeValue(stateObj, "status")
+        : state;
+    case "battery":
+      return stateObj.attributes.battery_level != null
+        ? hass.formatEntityAttributeValue(stateObj, "battery_level")
+        : state;
+    case "current_humidity":
+      return stateObj.attributes.current_humidity != null
+        ? hass.formatEntityAttributeValue(stateObj, "current_humidity")
+        : state;
     case "none":
       return undefined;
   }
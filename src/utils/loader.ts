@@ -19,3 +19,10 @@ export const loadCustomElement = async <T = any>(name: string) => {
   await customElements.whenDefined(name);
   return customElements.get(name) as T;
 };
+
+// Hack to load ha-markdown, which comes with the markdown card
+export const loadMarkdown = async () => {
+  if (customElements.get("ha-markdown")) return;
+  const helpers = await (window as any).loadCardHelpers();
+  helpers.createCardElement({ type: "markdown", content: "" });
+};
@@ -24,6 +24,8 @@ export type AlarmControlPanelChipConfig = {
   content_info?: Info;
   icon?: string;
   icon_color?: string;
+  arming_time?: number;
+  delay_time?: number;
   tap_action?: ActionConfig;
   hold_action?: ActionConfig;
   double_tap_action?: ActionConfig;
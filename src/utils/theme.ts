@@ -77,6 +77,32 @@ export const themeVariables = css`
   /* Input Number */
   --input-number-debounce: var(--mush-input-number-debounce);
 
+  /* Climate */
+  --climate-temperature-font-size: var(
+    --mush-climate-temperature-font-size,
+    2.5em
+  );
+  --climate-temperature-font-weight: var(
+    --mush-climate-temperature-font-weight,
+    300
+  );
+  --climate-temperature-color: var(
+    --mush-climate-temperature-color,
+    var(--card-primary-color)
+  );
+  --climate-graph-color: var(
+    --mush-climate-graph-color,
+    var(--primary-text-color)
+  );
+  --climate-graph-opacity: var(--mush-climate-graph-opacity, 0.5);
+  --climate-graph-band-opacity: var(--mush-climate-graph-band-opacity, 0.15);
+
+  /* Media */
+  --media-progress-height: var(--mush-media-progress-height, 12px);
+
+  /* Update */
+  --update-progress-height: var(--mush-update-progress-height, 8px);
+
   /* Layout */
   --layout-align: var(--mush-layout-align, center);
 
@@ -185,6 +211,12 @@ export const themeColorCss = css`
     --mush-rgb-state-lock-pending,
     var(--rgb-orange)
   );
+  --rgb-state-lock-opening: var(
+    --mush-rgb-state-lock-opening,
+    var(--rgb-orange)
+  );
+  --rgb-state-lock-open: var(--mush-rgb-state-lock-open, var(--rgb-purple));
+  --rgb-state-lock-jammed: var(--mush-rgb-state-lock-jammed, var(--rgb-red));
 
   /* State cover colors */
   --rgb-state-cover-open: var(--mush-rgb-state-cover-open, var(--rgb-blue));
@@ -220,4 +252,18 @@ export const themeColorCss = css`
     --mush-rgb-state-climate-off,
     var(--rgb-disabled)
   );
+
+  /* State humidifier colors */
+  --rgb-state-humidifier-humidifying: var(
+    --mush-rgb-state-humidifier-humidifying,
+    var(--rgb-state-humidifier)
+  );
+  --rgb-state-humidifier-drying: var(
+    --mush-rgb-state-humidifier-drying,
+    var(--rgb-orange)
+  );
+  --rgb-state-humidifier-idle: var(
+    --mush-rgb-state-humidifier-idle,
+    var(--rgb-disabled)
+  );
 `;